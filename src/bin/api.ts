@@ -0,0 +1,160 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import {
+  debugCli,
+  debugError,
+  enableDebugAll,
+} from "../utils/debug.js";
+import { TypeScript } from "../indexer/typescript/TypeScript.js";
+import { extractWorkspaces } from "../utils/workspace.js";
+import {
+  ApiReport,
+  buildApiPackage,
+  diffApiReports,
+  isApiReport,
+  renderApiDiffMarkdown,
+  renderApiReportMarkdown,
+} from "../utils/apiReport.js";
+
+type ApiOptions = {
+  debug?: boolean;
+  output?: string;
+  json?: boolean;
+  diff?: string;
+};
+
+/**
+ * Build the API report of all workspaces of the project
+ *
+ * @param projectPath - Absolute path to the project
+ * @returns The report
+ */
+export function buildApiReport(projectPath: string): ApiReport {
+  const workspaces = extractWorkspaces(projectPath);
+  const workspacePaths = workspaces.length
+    ? workspaces.map((w) => w.path)
+    : [projectPath];
+
+  const report: ApiReport = { packages: [] };
+  for (const workspacePath of workspacePaths) {
+    const tsconfigPath = path.join(workspacePath, "tsconfig.json");
+    const denoJsonPath = path.join(workspacePath, "deno.json");
+    if (!fs.existsSync(tsconfigPath) && !fs.existsSync(denoJsonPath)) {
+      debugCli(
+        `Skipping workspace ${workspacePath}: no tsconfig.json or deno.json found`
+      );
+      continue;
+    }
+
+    const project = new TypeScript(workspacePath);
+    const workspace = path.relative(projectPath, workspacePath) || ".";
+    report.packages.push(buildApiPackage(project, workspacePath, workspace));
+  }
+
+  report.packages.sort((a, b) =>
+    a.workspace < b.workspace ? -1 : a.workspace > b.workspace ? 1 : 0
+  );
+  return report;
+}
+
+/**
+ * Print the public API report, or the changes against an older report
+ *
+ * @param projectPath - Path to the project
+ * @param options - Command options
+ */
+async function processApi(
+  projectPath: string,
+  options: ApiOptions
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  try {
+    const absolutePath = path.resolve(process.cwd(), projectPath);
+    if (!fs.existsSync(absolutePath)) {
+      debugError(`Project directory not found at path: ${absolutePath}`);
+      process.exit(1);
+    }
+
+    // Report format is taken from the output file extension, unless --json
+    const json =
+      options.json ||
+      (!!options.output && path.extname(options.output) === ".json");
+
+    let oldReport: ApiReport | undefined;
+    if (options.diff) {
+      const oldPath = path.resolve(process.cwd(), options.diff);
+      let data: any;
+      try {
+        data = JSON.parse(fs.readFileSync(oldPath, "utf8"));
+      } catch (error) {
+        debugError(
+          `Failed to read JSON report ${oldPath}: ${(error as Error).message}`
+        );
+        process.exit(1);
+      }
+      if (!isApiReport(data)) {
+        debugError(
+          `Not an API report: ${oldPath}, create one with 'api --json'`
+        );
+        process.exit(1);
+      }
+      oldReport = data;
+    }
+
+    const report = buildApiReport(absolutePath);
+
+    let output: string;
+    if (oldReport) {
+      const changes = diffApiReports(oldReport, report);
+      debugCli(`${changes.length} API changes`);
+      output = json
+        ? JSON.stringify({ changes }, null, 2) + "\n"
+        : renderApiDiffMarkdown(changes);
+    } else {
+      output = json
+        ? JSON.stringify(report, null, 2) + "\n"
+        : renderApiReportMarkdown(report);
+    }
+
+    if (options.output) {
+      const outputPath = path.resolve(process.cwd(), options.output);
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, output);
+      console.log(`API ${oldReport ? "changes" : "report"} written to ${outputPath}`);
+    } else {
+      process.stdout.write(output);
+    }
+  } catch (error) {
+    debugError(`Error building API report: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the 'api' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerApiCommand(program: Command): void {
+  program
+    .command("api")
+    .description(
+      "Report the public API surface of the package, grouped by entrypoint"
+    )
+    .argument("<path_to_project>", "Path to the project")
+    .option("-d, --debug", "Enable debug output")
+    .option(
+      "-o, --output <file>",
+      "Write the report to a file instead of stdout, .json files get JSON"
+    )
+    .option("--json", "Output JSON instead of markdown")
+    .option(
+      "--diff <old_report>",
+      "Report added, removed and changed exports against an older JSON report"
+    )
+    .action(processApi);
+}
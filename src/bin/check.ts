@@ -0,0 +1,204 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import { INDEXER_DIR } from "./index.js";
+import { debugCli, debugError, enableDebugAll } from "../utils/debug.js";
+import { TypeScript } from "../indexer/typescript/TypeScript.js";
+import { extractWorkspaces } from "../utils/workspace.js";
+import { flattenSymbols, getDocStatus } from "../utils/docStatus.js";
+
+type CheckOptions = {
+  debug?: boolean;
+  dir?: string;
+  minCoverage?: number;
+};
+
+type WorkspaceCheck = {
+  workspace: string;
+  exported: number;
+  documented: number;
+  stale: number;
+  unresolved: number;
+  coverage: number;
+  passed: boolean;
+};
+
+/**
+ * Check docs freshness of a single workspace
+ *
+ * @param workspacePath - Path to the workspace
+ * @param rootProjectPath - Path to the root project (for relative paths)
+ * @param options - Command options
+ * @returns Check result, or undefined if the workspace has no TS config
+ */
+function checkWorkspace(
+  workspacePath: string,
+  rootProjectPath: string,
+  options: CheckOptions
+): WorkspaceCheck | undefined {
+  const tsconfigPath = path.join(workspacePath, "tsconfig.json");
+  const denoJsonPath = path.join(workspacePath, "deno.json");
+  if (!fs.existsSync(tsconfigPath) && !fs.existsSync(denoJsonPath)) {
+    debugCli(
+      `Skipping workspace ${workspacePath}: no tsconfig.json or deno.json found`
+    );
+    return;
+  }
+
+  const docsPath = options.dir
+    ? path.resolve(process.cwd(), options.dir)
+    : path.join(workspacePath, INDEXER_DIR);
+
+  const project = new TypeScript(workspacePath);
+  const symbols = flattenSymbols(project.listRootSymbols());
+  const statuses = getDocStatus(workspacePath, docsPath, symbols);
+
+  // Coverage counts exported symbols with up-to-date docs
+  const exportedHashes = new Set(
+    symbols
+      .filter((s) => s.isExported || !!s.id.exportHints?.length)
+      .map((s) => s.id.hash)
+  );
+  let documented = 0;
+  let stale = 0;
+  let unresolved = 0;
+  for (const s of statuses) {
+    if (s.hash && exportedHashes.has(s.hash)) {
+      if (s.status === "up-to-date") documented++;
+      else if (s.status !== "new") stale++;
+    }
+
+    // Docs of symbols that no longer exist must still resolve to a
+    // declaration, docs matched to a current symbol are stale at most
+    if (
+      s.status === "orphaned" &&
+      s.docId &&
+      !project.resolveStableId(s.docId)
+    ) {
+      debugError(
+        `Documented symbol doesn't resolve: ${s.docId.name} (${s.docId.kind}) in ${s.docId.file} - hash: ${s.docHash}`
+      );
+      unresolved++;
+    }
+  }
+
+  const exported = exportedHashes.size;
+  const coverage = exported ? (documented * 100) / exported : 100;
+  const minCoverage = options.minCoverage ?? 100;
+  return {
+    workspace: path.relative(rootProjectPath, workspacePath) || ".",
+    exported,
+    documented,
+    stale,
+    unresolved,
+    coverage,
+    passed: coverage >= minCoverage && unresolved === 0,
+  };
+}
+
+/**
+ * Print the check results as a table
+ *
+ * @param results - Per-workspace check results
+ */
+function printCheckTable(results: WorkspaceCheck[]) {
+  const header = [
+    "workspace",
+    "exported",
+    "documented",
+    "stale",
+    "unresolved",
+    "coverage",
+    "result",
+  ];
+  const rows = results.map((r) => [
+    r.workspace,
+    String(r.exported),
+    String(r.documented),
+    String(r.stale),
+    String(r.unresolved),
+    `${r.coverage.toFixed(1)}%`,
+    r.passed ? "ok" : "FAIL",
+  ]);
+
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i].length))
+  );
+  const format = (cells: string[]) =>
+    cells
+      .map((c, i) => c.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  console.log(format(header));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  for (const row of rows) console.log(format(row));
+}
+
+/**
+ * Check that docs in INDEXER_DIR are fresh, exit with code 1 if not
+ *
+ * @param projectPath - Path to the project
+ * @param options - Command options
+ */
+async function processCheck(
+  projectPath: string,
+  options: CheckOptions
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  let passed = false;
+  try {
+    const absolutePath = path.resolve(process.cwd(), projectPath);
+    if (!fs.existsSync(absolutePath)) {
+      debugError(`Project directory not found at path: ${absolutePath}`);
+      process.exit(1);
+    }
+
+    const workspaces = extractWorkspaces(absolutePath);
+    const workspacePaths = workspaces.length
+      ? workspaces.map((w) => w.path)
+      : [absolutePath];
+
+    const results: WorkspaceCheck[] = [];
+    for (const workspacePath of workspacePaths) {
+      const result = checkWorkspace(workspacePath, absolutePath, options);
+      if (result) results.push(result);
+    }
+
+    printCheckTable(results);
+    passed = results.every((r) => r.passed);
+  } catch (error) {
+    debugError(`Error checking docs: ${(error as Error).message}`);
+  }
+
+  if (!passed) process.exit(1);
+}
+
+/**
+ * Register the 'check' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerCheckCommand(program: Command): void {
+  program
+    .command("check")
+    .description(
+      `Fail if docs in '${INDEXER_DIR}' don't cover the exported symbols or are out of date`
+    )
+    .argument("<path_to_project>", "Path to the project")
+    .option("-d, --debug", "Enable debug output")
+    .option(
+      "--dir <string>",
+      `Directory with generated docs (default: ${INDEXER_DIR})`
+    )
+    .option(
+      "--min-coverage <percent>",
+      "Minimal share of exported symbols with up-to-date docs (default: 100)",
+      (value) => parseFloat(value),
+      100
+    )
+    .action(processCheck);
+}
@@ -0,0 +1,139 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import {
+  debugCli,
+  enableDebugAll,
+  outputStructured,
+} from "../utils/debug.js";
+import { DEFAULT_SEARCH_INDEX, SearchIndex } from "../utils/searchIndex.js";
+import {
+  EvalReport,
+  evaluateRetrieval,
+  loadEvalQuestions,
+} from "../utils/evaluation.js";
+
+type EvalOptions = {
+  debug?: boolean;
+  index?: string;
+  dir?: string;
+  k?: string;
+  json?: boolean;
+};
+
+/**
+ * Print a human-readable evaluation report
+ *
+ * @param report - Evaluation report
+ */
+function printReport(report: EvalReport) {
+  console.log(`Questions: ${report.questions}`);
+  console.log(
+    Object.entries(report.recall)
+      .map(([k, recall]) => `recall@${k}: ${recall.toFixed(3)}`)
+      .join("  ")
+  );
+  console.log(`MRR@${report.maxK}: ${report.mrr.toFixed(3)}`);
+
+  const missed = report.results.filter((r) => r.ranks.some((rank) => !rank));
+  if (!missed.length) return;
+
+  console.log(`\nMissed (not all expected docs in top ${report.maxK}):`);
+  for (const r of missed) {
+    console.log(`- ${r.question}`);
+    console.log(
+      `  missing: ${r.expected.filter((_, i) => !r.ranks[i]).join(", ")}`
+    );
+    if (r.top.length) console.log(`  top: ${r.top.slice(0, 3).join(", ")}`);
+  }
+}
+
+/**
+ * Run evaluation questions against the prepared docs with the local retriever
+ *
+ * @param questionsFile - Path to the JSON/YAML questions file
+ * @param options - Command options
+ */
+async function processEval(
+  questionsFile: string,
+  options: EvalOptions
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  const ks = (options.k || "1,5,10")
+    .split(",")
+    .map((k) => parseInt(k, 10));
+  if (!ks.length || ks.some((k) => !(k > 0))) {
+    console.log("-k must be a comma-separated list of positive numbers");
+    process.exit(1);
+  }
+
+  try {
+    const questions = loadEvalQuestions(
+      path.resolve(process.cwd(), questionsFile)
+    );
+    debugCli(`Loaded ${questions.length} questions from ${questionsFile}`);
+
+    // Prepared docs dir takes precedence over the saved index
+    let index: SearchIndex;
+    if (options.dir) {
+      const dirPath = path.resolve(process.cwd(), options.dir);
+      index = SearchIndex.fromDocsDir(dirPath);
+      debugCli(`Indexed ${index.size} docs from ${dirPath}`);
+    } else {
+      const indexPath = path.resolve(
+        process.cwd(),
+        options.index || DEFAULT_SEARCH_INDEX
+      );
+      if (!fs.existsSync(indexPath)) {
+        console.log(
+          `Search index not found at ${indexPath}, build it with 'prepare --index' or pass --dir`
+        );
+        process.exit(1);
+      }
+      index = SearchIndex.load(indexPath);
+      debugCli(`Loaded search index of ${index.size} docs from ${indexPath}`);
+    }
+
+    const report = evaluateRetrieval(index, questions, ks);
+    if (options.json) {
+      outputStructured(report);
+    } else {
+      printReport(report);
+    }
+  } catch (error) {
+    console.log(`Error evaluating retrieval: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the 'eval' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerEvalCommand(program: Command): void {
+  program
+    .command("eval")
+    .description(
+      "Measure retrieval quality of the prepared docs with recall@k and MRR"
+    )
+    .argument(
+      "<questions_file>",
+      "JSON or YAML file with questions and their expected symbol hashes or file paths"
+    )
+    .option("-d, --debug", "Enable debug output")
+    .option(
+      "-i, --index <file>",
+      `Path to the search index from 'prepare --index' (default: ${DEFAULT_SEARCH_INDEX})`
+    )
+    .option(
+      "--dir <directory>",
+      "Directory of docs from 'prepare --dir' to index instead of the saved index"
+    )
+    .option("-k <list>", "Comma-separated cutoffs for recall@k (default: 1,5,10)")
+    .option("--json", "Output machine-readable JSON")
+    .action(processEval);
+}
@@ -0,0 +1,289 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import { INDEXER_DIR } from "./index.js";
+import { debugCli, debugError, enableDebugAll } from "../utils/debug.js";
+import { Symbol, TypeScript } from "../indexer/typescript/TypeScript.js";
+import { ReferenceIndex } from "../indexer/typescript/references.js";
+import { extractWorkspaces } from "../utils/workspace.js";
+import { flattenSymbols } from "../utils/docStatus.js";
+import {
+  isSymbolEntry,
+  listDocumentedFiles,
+  readDocEntries,
+} from "../utils/docsDir.js";
+import { DocSymbol, describeSymbol, formatGitLink } from "../utils/docstore.js";
+import { getGitRemoteOrigin, resolveCommit } from "../utils/git.js";
+import { SiteContent, SiteFile, writeSite } from "../utils/htmlSite.js";
+
+type ExportHtmlOptions = {
+  debug?: boolean;
+  out: string;
+  docs?: string;
+  title?: string;
+};
+
+/**
+ * Read the directory summaries of a docs directory
+ *
+ * @param docsPath - Path to the INDEXER_DIR directory
+ * @returns Dir entries, their paths are workspace-relative
+ */
+function readDirEntries(docsPath: string): any[] {
+  const entries: any[] = [];
+  const scan = (dirPath: string) => {
+    for (const item of fs.readdirSync(dirPath, { withFileTypes: true })) {
+      if (item.isDirectory()) scan(path.join(dirPath, item.name));
+    }
+    entries.push(
+      ...readDocEntries(path.join(dirPath, "summary.json")).filter(
+        (e) => e.type === "dir"
+      )
+    );
+  };
+  scan(docsPath);
+  return entries;
+}
+
+/**
+ * Add the documented dirs, files and symbols of a workspace to the site
+ *
+ * @param workspacePath - Absolute path to the workspace
+ * @param projectPath - Absolute path to the project root
+ * @param site - Site content to add to
+ * @param options - Command options
+ * @param currentCommitHash - HEAD of the project, if it's a git repository
+ * @param gitOrigin - Git remote origin URL for source links
+ */
+function collectWorkspace(
+  workspacePath: string,
+  projectPath: string,
+  site: SiteContent,
+  options: ExportHtmlOptions,
+  currentCommitHash?: string,
+  gitOrigin?: string
+) {
+  const workspaceRelativePath = path
+    .relative(projectPath, workspacePath)
+    .split(path.sep)
+    .join("/");
+
+  if (
+    !fs.existsSync(path.join(workspacePath, "tsconfig.json")) &&
+    !fs.existsSync(path.join(workspacePath, "deno.json"))
+  ) {
+    debugCli(
+      `Skipping workspace ${workspacePath}: no tsconfig.json or deno.json found`
+    );
+    return;
+  }
+
+  const docsPath = options.docs
+    ? path.resolve(process.cwd(), options.docs)
+    : path.join(workspacePath, INDEXER_DIR);
+  if (!fs.existsSync(docsPath)) {
+    debugError(`Docs directory not found at: ${docsPath}`);
+    return;
+  }
+
+  // Docs of another commit are still worth browsing, but may be stale
+  const commitFilePath = path.join(docsPath, "commit.git");
+  const docsCommitHash = fs.existsSync(commitFilePath)
+    ? fs.readFileSync(commitFilePath, "utf8").trim()
+    : undefined;
+  if (
+    docsCommitHash &&
+    currentCommitHash &&
+    docsCommitHash !== currentCommitHash
+  )
+    console.log(
+      `Docs in ${docsPath} were generated at commit ${docsCommitHash}, not the current ${currentCommitHash}, some may be stale or missing`
+    );
+  // Source links point to the commit the docs were generated from
+  const commitHash = docsCommitHash || currentCommitHash;
+
+  const toProjectPath = (p: string) =>
+    path.posix.join(workspaceRelativePath, p).replace(/^\/+|\/+$/g, "");
+  const sourceLink = (p: string) =>
+    gitOrigin && commitHash && p
+      ? formatGitLink(gitOrigin, commitHash, p)
+      : undefined;
+
+  for (const entry of readDirEntries(docsPath)) {
+    const dirPath = toProjectPath(entry.path || "");
+    site.dirs.push({
+      path: dirPath,
+      summary: entry.summary,
+      details: entry.details,
+      link: sourceLink(dirPath),
+    });
+  }
+
+  debugCli(`Analyzing workspace ${workspacePath}`);
+  const typescript = new TypeScript(workspacePath);
+  const symbols = flattenSymbols(typescript.listRootSymbols());
+  const references = new ReferenceIndex(typescript, symbols);
+  const symbolsByFile = new Map<string, Symbol[]>();
+  for (const symbol of symbols) {
+    const list = symbolsByFile.get(symbol.id.file) || [];
+    list.push(symbol);
+    symbolsByFile.set(symbol.id.file, list);
+  }
+
+  let symbolCount = 0;
+  for (const file of listDocumentedFiles(docsPath)) {
+    const entries = readDocEntries(path.join(docsPath, file + ".json"));
+    const symbolInfos = entries.filter(isSymbolEntry) as DocSymbol[];
+    const infoByHash = new Map(symbolInfos.map((s) => [s.id?.hash, s]));
+    const fileEntry = entries.find((e) => e.type === "file");
+
+    const filePath = toProjectPath(file);
+    const siteFile: SiteFile = {
+      path: filePath,
+      summary: fileEntry?.summary,
+      details: fileEntry?.details,
+      link: sourceLink(filePath),
+      symbols: [],
+    };
+
+    // Symbols in source order, those without docs are skipped
+    for (const symbol of symbolsByFile.get(file) || []) {
+      const symbolInfo = infoByHash.get(symbol.id.hash);
+      if (!symbolInfo) continue;
+      try {
+        const parts = describeSymbol(
+          symbolInfo,
+          symbolInfos,
+          typescript,
+          commitHash,
+          workspaceRelativePath || undefined,
+          gitOrigin,
+          references
+        );
+        siteFile.symbols.push({
+          ...parts,
+          hash: symbol.id.hash,
+          name: symbol.id.name,
+          qualifiedName: [
+            ...symbol.id.containerChain.map((c) => c.name),
+            symbol.id.name,
+          ].join("."),
+          kind: symbol.id.kind,
+          workspace: workspaceRelativePath,
+        });
+        symbolCount++;
+      } catch (error) {
+        debugError(
+          `Error processing symbol ${symbol.id.name}: ${
+            (error as Error).message
+          }`
+        );
+      }
+    }
+    site.files.push(siteFile);
+  }
+  debugCli(
+    `Workspace ${workspacePath}: ${symbolCount} documented symbols of ${symbols.length}`
+  );
+}
+
+/**
+ * Export the generated docs of a project as a static HTML site
+ *
+ * @param projectPath - Path to the project
+ * @param options - Command options
+ */
+async function processExportHtml(
+  projectPath: string,
+  options: ExportHtmlOptions
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  const absolutePath = path.resolve(process.cwd(), projectPath);
+  if (
+    !fs.existsSync(absolutePath) ||
+    !fs.statSync(absolutePath).isDirectory()
+  ) {
+    console.log(`Project directory not found at path: ${absolutePath}`);
+    process.exit(1);
+  }
+
+  try {
+    let currentCommitHash: string | undefined;
+    try {
+      currentCommitHash = resolveCommit(absolutePath, "HEAD");
+    } catch (error) {
+      debugCli(`Not a git repository, no source links: ${absolutePath}`);
+    }
+    const gitOrigin = getGitRemoteOrigin(absolutePath);
+
+    const packageJsonPath = path.join(absolutePath, "package.json");
+    const packageName = fs.existsSync(packageJsonPath)
+      ? JSON.parse(fs.readFileSync(packageJsonPath, "utf8")).name
+      : undefined;
+    const site: SiteContent = {
+      title: options.title || packageName || path.basename(absolutePath),
+      dirs: [],
+      files: [],
+    };
+
+    const workspaces = extractWorkspaces(absolutePath);
+    const workspacePaths = workspaces.length
+      ? workspaces.map((w) => w.path)
+      : [absolutePath];
+    for (const workspacePath of workspacePaths) {
+      collectWorkspace(
+        workspacePath,
+        absolutePath,
+        site,
+        options,
+        currentCommitHash,
+        gitOrigin
+      );
+    }
+
+    if (!site.files.length && !site.dirs.length) {
+      console.log(
+        `No generated docs found, run 'askexperts-coder generate' first`
+      );
+      process.exit(1);
+    }
+
+    const outDir = path.resolve(process.cwd(), options.out);
+    const pages = writeSite(site, outDir);
+    const symbolCount = site.files.reduce((n, f) => n + f.symbols.length, 0);
+    console.log(
+      `Site of ${pages} pages with ${site.files.length} files and ${symbolCount} symbols written to ${outDir}`
+    );
+  } catch (error) {
+    console.log(`Error exporting HTML: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the 'export-html' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerExportHtmlCommand(program: Command): void {
+  program
+    .command("export-html")
+    .description(
+      "Render the generated docs as a static HTML site with search and source links"
+    )
+    .argument("<path_to_project>", "Path to the project")
+    .requiredOption("-o, --out <directory>", "Output directory of the site")
+    .option("-d, --debug", "Enable debug output")
+    .option(
+      "--docs <path>",
+      `Path to the docs directory (default: ${INDEXER_DIR} of every workspace)`
+    )
+    .option(
+      "--title <title>",
+      "Site title (default: package name or project directory name)"
+    )
+    .action(processExportHtml);
+}
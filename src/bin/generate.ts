@@ -10,12 +10,113 @@ import {
   TypeScript,
 } from "../indexer/typescript/TypeScript.js";
 import { TypescriptIndexer } from "../indexer/typescript/TypescriptIndexer.js";
+import { RelatedContext } from "../indexer/typescript/relatedContext.js";
+import { DocGenerator } from "../indexer/generators/DocGenerator.js";
+import { AskExpertsGenerator } from "../indexer/generators/AskExpertsGenerator.js";
+import { OpenaiGenerator } from "../indexer/generators/OpenaiGenerator.js";
+import { StubGenerator, STUB_MODEL } from "../indexer/generators/StubGenerator.js";
 import { INDEXER_DIR } from "./index.js";
 import { extractWorkspaces } from "../utils/workspace.js";
-import { generateFileTree, parseGitignore } from "../utils/fileTree.js";
+import { generateFileTree } from "../utils/fileTree.js";
+import { IgnoreMatcher } from "../utils/gitignore.js";
+import { resolveCommit } from "../utils/git.js";
+import {
+  IncrementalPlan,
+  applyIncrementalPlan,
+  planIncrementalUpdate,
+} from "../utils/incremental.js";
+import {
+  createFailedEntry,
+  isSymbolEntry,
+  readDocEntries,
+  removeDocEntries,
+} from "../utils/docsDir.js";
+import { InvalidResponseError } from "../indexer/typescript/response.js";
+import { isTransientError, withRetry } from "../utils/retry.js";
+import {
+  FAILED_FILE,
+  appendFailed,
+  FailedItem,
+  FailedRetries,
+  readFailed,
+} from "../utils/failedQueue.js";
+import { Budget, BudgetExceededError, LEDGER_FILE } from "../utils/ledger.js";
+import {
+  CostEstimator,
+  RequestEstimate,
+  printCostReport,
+} from "../utils/costEstimate.js";
+import { LruCache } from "../utils/lruCache.js";
+import { OrderedDocsWriter } from "../utils/docsWriter.js";
+import {
+  SymbolFilter,
+  SymbolFilterOptions,
+  addSymbolFilterOptions,
+} from "../utils/symbolFilter.js";
 
 const NWC_FILE = ".askexperts-coder.nwc";
 
+// Min number of source files kept in memory while documenting symbols
+const MIN_FILE_CACHE_SIZE = 16;
+
+// Default token budget of related declarations passed with a symbol request
+const DEFAULT_CONTEXT_TOKENS = 1000;
+
+/**
+ * Source file being documented
+ */
+interface SourceFile {
+  content: string;
+  /** Hashes of symbols that already have docs, with --continue */
+  documented: Set<string>;
+}
+
+/**
+ * Symbols of one file to document, split into batches
+ */
+interface FileWorkUnit {
+  /** Workspace-relative path of the file */
+  file: string;
+  batches: Symbol[][];
+}
+
+/**
+ * Options of the 'generate' command
+ */
+type GenerateOptions = SymbolFilterOptions & {
+  debug?: boolean;
+  nwc?: string;
+  continue?: boolean;
+  threads?: number;
+  branch?: string;
+  dir?: string;
+  maxAmount?: number;
+  since?: string;
+  incremental?: boolean;
+  backend?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  fallbackModel?: string;
+  dryRun?: boolean;
+  offline?: boolean;
+  budget?: number;
+  batchSize?: number;
+  retries?: number;
+  retryFailed?: boolean;
+  contextTokens?: number;
+};
+
+/**
+ * Check if a failed request should be retried, budget and invalid
+ * model output errors won't go away by repeating the request
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof BudgetExceededError) return false;
+  if (error instanceof InvalidResponseError) return false;
+  return isTransientError(error);
+}
+
 /**
  * Gets the NWC string from the provided option, from the file, or throws an error
  *
@@ -174,22 +275,41 @@ function writeCommitFile(docsPath: string, commitHash: string): void {
   debugCli(`Commit hash written to ${commitFilePath}`);
 }
 
+/**
+ * Read the commit hash from INDEXER_DIR/commit.git file
+ *
+ * @param docsPath - Path to the INDEXER_DIR directory
+ * @returns The commit hash, or undefined if the file doesn't exist
+ */
+function readCommitFile(docsPath: string): string | undefined {
+  const commitFilePath = path.join(docsPath, "commit.git");
+  if (!fs.existsSync(commitFilePath)) return undefined;
+  return fs.readFileSync(commitFilePath, "utf8").trim() || undefined;
+}
+
 /**
  * Check if commit.git file exists and validate commit hash for --continue mode
  *
  * @param docsPath - Path to the INDEXER_DIR directory
  * @param currentCommitHash - The current commit hash
+ * @param dryRun - Only compare, never write commit.git
  * @returns true if validation passes or file doesn't exist
  */
 function validateCommitForContinue(
   docsPath: string,
-  currentCommitHash: string
+  currentCommitHash: string,
+  dryRun = false
 ): boolean {
   const commitFilePath = path.join(docsPath, "commit.git");
 
+  if (!fs.existsSync(docsPath)) {
+    debugCli(`${docsPath} does not exist, nothing to continue`);
+    return true;
+  }
+
   if (!fs.existsSync(commitFilePath)) {
     debugCli("commit.git file does not exist, proceeding with --continue");
-    writeCommitFile(docsPath, currentCommitHash);
+    if (!dryRun) writeCommitFile(docsPath, currentCommitHash);
     return true;
   }
 
@@ -210,6 +330,70 @@ function validateCommitForContinue(
   return true;
 }
 
+/**
+ * LLM backend with the models to use with it
+ */
+interface DocBackend {
+  generator: DocGenerator;
+  /** Models resolved for the backend, undefined for the indexer defaults */
+  model?: string;
+  fallbackModel?: string;
+}
+
+/**
+ * Create the LLM backend selected by the --backend option
+ *
+ * @param options - Command options
+ * @returns The doc generator and its models
+ * @throws Error if the backend is unknown
+ */
+function createDocBackend(options: GenerateOptions): DocBackend {
+  const backend = options.backend || "askexperts";
+  debugCli(`Using '${backend}' backend`);
+
+  switch (backend) {
+    case "askexperts": {
+      // Get NWC string from options, file, or error
+      const nwcString = getNwcString(options.nwc);
+
+      // If NWC was provided via CLI, save it
+      if (options.nwc) {
+        saveNwcString(options.nwc);
+      }
+
+      return {
+        generator: new AskExpertsGenerator({ nwc: nwcString }),
+        model: options.model,
+        fallbackModel: options.fallbackModel,
+      };
+    }
+    case "openai":
+      if (!options.model) {
+        throw new Error("The 'openai' backend requires the --model option");
+      }
+      return {
+        generator: new OpenaiGenerator({
+          baseURL: options.baseUrl,
+          apiKey: options.apiKey,
+        }),
+        model: options.model,
+        // Default fallback models are askexperts-specific, retry with the same model
+        fallbackModel: options.fallbackModel || options.model,
+      };
+    case "stub":
+      // Stub ignores the models, set them for nicer logs
+      return {
+        generator: new StubGenerator(),
+        model: options.model || STUB_MODEL,
+        fallbackModel: options.fallbackModel || STUB_MODEL,
+      };
+    default:
+      throw new Error(
+        `Unknown backend '${backend}', expected one of: askexperts, openai, stub`
+      );
+  }
+}
+
 /**
  * Process a project at the specified path
  *
@@ -218,28 +402,32 @@ function validateCommitForContinue(
  */
 async function processProject(
   projectPath: string,
-  options: {
-    debug?: boolean;
-    nwc?: string;
-    name?: string;
-    continue?: boolean;
-    threads?: number;
-    branch?: string;
-    dir?: string;
-    maxAmount?: number;
-  }
+  options: GenerateOptions
 ): Promise<void> {
   // Enable debug output if debug flag is set
   if (options.debug) {
     enableDebugAll();
   }
 
-  // Get NWC string from options, file, or error
-  const nwcString = getNwcString(options.nwc);
+  // Offline dry-run never talks to the backend
+  const backend: DocBackend =
+    options.dryRun && options.offline
+      ? {
+          generator: new StubGenerator(),
+          model: options.model,
+          fallbackModel: options.fallbackModel,
+        }
+      : createDocBackend(options);
+
+  // Shared by all workspaces
+  const budget = new Budget(options.budget);
 
-  // If NWC was provided via CLI, save it
-  if (options.nwc) {
-    saveNwcString(options.nwc);
+  let filter: SymbolFilter;
+  try {
+    filter = new SymbolFilter(options);
+  } catch (error) {
+    console.log((error as Error).message);
+    process.exit(1);
   }
 
   try {
@@ -270,31 +458,53 @@ async function processProject(
     // Check if this is a monorepo with workspaces
     const workspaces = extractWorkspaces(absolutePath);
 
+    // Collected by dry-run mode
+    const estimates: RequestEstimate[] = [];
+
     if (workspaces.length > 0) {
       debugCli(`Found ${workspaces.length} workspaces in monorepo`);
       // Process each workspace
       for (const workspace of workspaces) {
         debugCli(`Processing workspace: ${workspace.name || workspace.path}`);
-        await processWorkspace(
+        const result = await processWorkspace(
           workspace.path,
           absolutePath,
           currentCommitHash,
-          nwcString,
+          backend,
+          budget,
+          filter,
           options
         );
+        if (result) estimates.push(...result);
       }
     } else {
       // Process as a single package
       debugCli(`Processing as single package`);
-      await processWorkspace(
+      const result = await processWorkspace(
         absolutePath,
         absolutePath,
         currentCommitHash,
-        nwcString,
+        backend,
+        budget,
+        filter,
         options
       );
+      if (result) estimates.push(...result);
+    }
+
+    if (options.dryRun) {
+      printCostReport(estimates, options.maxAmount, options.budget);
+    } else if (options.budget) {
+      console.log(`Spent ${budget.spent} of ${options.budget} sats budget`);
     }
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      // Not a failure, the run stopped where the user asked it to
+      console.log(
+        `Stopped: ${error.message}. Run again with --continue to resume.`
+      );
+      return;
+    }
     debugError(`Error processing project: ${(error as Error).message}`);
     process.exit(1);
   }
@@ -306,25 +516,21 @@ async function processProject(
  * @param workspacePath - Path to the workspace to process
  * @param rootProjectPath - Path to the root project (for relative paths)
  * @param currentCommitHash - Current git commit hash
- * @param nwcString - NWC string for payments
+ * @param backend - LLM backend to generate docs with and its models
+ * @param budget - Spend limit of the whole run
+ * @param filter - Selects the symbols to document
  * @param options - Command options
+ * @returns Request estimates in dry-run mode
  */
 async function processWorkspace(
   workspacePath: string,
   rootProjectPath: string,
   currentCommitHash: string,
-  nwcString: string,
-  options: {
-    debug?: boolean;
-    nwc?: string;
-    name?: string;
-    continue?: boolean;
-    threads?: number;
-    branch?: string;
-    dir?: string;
-    maxAmount?: number;
-  }
-): Promise<void> {
+  backend: DocBackend,
+  budget: Budget,
+  filter: SymbolFilter,
+  options: GenerateOptions
+): Promise<RequestEstimate[] | undefined> {
   const workspaceRelativePath = path.relative(rootProjectPath, workspacePath);
   const workspacePrefix = workspaceRelativePath
     ? workspaceRelativePath + "/"
@@ -347,13 +553,17 @@ async function processWorkspace(
   const docsPath = options.dir
     ? path.resolve(process.cwd(), options.dir)
     : path.join(workspacePath, INDEXER_DIR);
-  fs.mkdirSync(docsPath, { recursive: true });
-
-  // Handle commit.git file based on --continue option
-  if (options.continue) {
-    validateCommitForContinue(docsPath, currentCommitHash);
-  } else {
-    writeCommitFile(docsPath, currentCommitHash);
+  if (!options.dryRun) fs.mkdirSync(docsPath, { recursive: true });
+
+  // Handle commit.git file based on --continue option,
+  // incremental mode updates it after existing docs are reconciled
+  const incremental = !!(options.since || options.incremental);
+  if (!incremental) {
+    if (options.continue || options.retryFailed) {
+      validateCommitForContinue(docsPath, currentCommitHash, options.dryRun);
+    } else if (!options.dryRun) {
+      writeCommitFile(docsPath, currentCommitHash);
+    }
   }
 
   debugCli(`Loading workspace project...`);
@@ -362,7 +572,7 @@ async function processWorkspace(
   const symbols = project.listRootSymbols();
   debugCli(`Workspace has ${symbols.length} root symbols`);
 
-  const symbolInfos: (Symbol & { parentId?: StableSymbolId })[] = [];
+  let symbolInfos: (Symbol & { parentId?: StableSymbolId })[] = [];
   const addInfo = (s: Symbol) => {
     // Don't modify the symbol ID - keep the original file path
     // The workspace prefix will be handled in the output file path only
@@ -376,182 +586,368 @@ async function processWorkspace(
     });
   };
 
+  // Filtering needs the symbol tree, which addInfo drops
+  const selected = new Set<string>();
   const addSymbols = (ss: Symbol[]) => {
     for (const s of ss) {
       addInfo(s);
+      if (filter.matches(s)) selected.add(s.id.hash);
       if (s.children) addSymbols(s.children);
     }
   };
 
   addSymbols(symbols);
 
+  let plan: IncrementalPlan | undefined;
+  if (incremental) {
+    const baseCommit = options.since
+      ? resolveCommit(workspacePath, options.since)
+      : readCommitFile(docsPath);
+
+    if (!baseCommit) {
+      debugCli("No previous commit.git found, generating all docs");
+    } else if (baseCommit !== currentCommitHash) {
+      plan = planIncrementalUpdate(
+        workspacePath,
+        docsPath,
+        symbolInfos,
+        baseCommit
+      );
+      if (!options.dryRun) applyIncrementalPlan(docsPath, plan);
+    } else {
+      debugCli(`Docs are up to date with ${currentCommitHash}`);
+    }
+    if (!options.dryRun) writeCommitFile(docsPath, currentCommitHash);
+
+    // Remaining docs are valid for the current commit, only fill in the gaps
+    options = { ...options, continue: true };
+  }
+
+  // Incremental plan reconciles docs of all symbols, the rest
+  // of the run only deals with the selected ones
+  if (!filter.isEmpty()) {
+    symbolInfos = symbolInfos.filter((s) => selected.has(s.id.hash));
+    debugCli(`${symbolInfos.length} symbols selected by filters`);
+  }
+
+  // Queued items of the symbols and summaries this run documents again,
+  // they leave the queue one by one as they're documented or fail again
+  let summaryPaths: Set<string> | undefined;
+  const allSymbolInfos = symbolInfos;
+  const selectedHashes = new Set(symbolInfos.map((s) => s.id.hash));
+  const summaries = new Set(collectSummaryPaths(allSymbolInfos));
+  const queued = readFailed(docsPath).filter((item) =>
+    item.kind === "symbol"
+      ? selectedHashes.has(item.hash || "")
+      : summaries.has(item.path)
+  );
+  const retries = new FailedRetries(docsPath, queued);
+  if (options.retryFailed) {
+    debugCli(`Retrying ${queued.length} failed items`);
+
+    const failedHashes = new Set(queued.map((f) => f.hash));
+    symbolInfos = symbolInfos.filter((s) => failedHashes.has(s.id.hash));
+    summaryPaths = new Set(
+      queued.filter((f) => f.kind !== "symbol").map((f) => f.path)
+    );
+
+    options = { ...options, continue: true };
+  } else if (!options.dryRun && !options.continue) {
+    // A plain run documents the selected symbols and their files again,
+    // their previous entries are replaced instead of being duplicated
+    for (const file of new Set(symbolInfos.map((s) => s.id.file))) {
+      removeDocEntries(path.join(docsPath, file + ".json"), (entry) => {
+        // Failure records count as the entries they stand for
+        const kind = entry.type === "failed" ? entry.kind : entry.type;
+        if (kind === "file") return true;
+        return (
+          (!kind || kind === "symbol") && selectedHashes.has(entry.id?.hash)
+        );
+      });
+    }
+  }
+
+  // Related declarations from other files are passed to the model,
+  // and symbols are ordered so that leaf types get documented first
+  const related = new RelatedContext(
+    project,
+    allSymbolInfos,
+    options.contextTokens ?? DEFAULT_CONTEXT_TOKENS
+  );
+  if (options.contextTokens !== 0) {
+    symbolInfos = related.orderByDependencies(symbolInfos);
+    if (options.continue) {
+      for (const file of new Set(allSymbolInfos.map((s) => s.id.file))) {
+        for (const entry of readDocEntries(path.join(docsPath, file + ".json")))
+          if (isSymbolEntry(entry)) related.addSummary(entry.id.hash, entry.summary);
+      }
+    }
+  }
+
   const indexer = new TypescriptIndexer({
-    nwc: nwcString,
+    generator: backend.generator,
     maxAmount: options.maxAmount,
+    model: backend.model,
+    fallbackModel: backend.fallbackModel,
+    budget,
+    ledgerFile: path.join(docsPath, LEDGER_FILE),
   });
 
+  if (options.dryRun) {
+    return estimateWorkspace(
+      workspacePath,
+      workspacePrefix,
+      docsPath,
+      indexer,
+      related,
+      symbolInfos,
+      collectSummaryPaths(allSymbolInfos).filter(
+        (p) => !summaryPaths || summaryPaths.has(p)
+      ),
+      plan,
+      options
+    );
+  }
+
   /**
-   * Process a single symbol asynchronously
+   * Process a batch of symbols of the same file asynchronously
    *
-   * @param symbol The symbol to process
-   * @param projectPath The absolute path to the project
+   * @param batch The symbols to process
+   * @param source The source file of the symbols
    * @param docsPath The path to store documentation
    * @param indexer The TypescriptIndexer instance
-   * @param fileCache A cache object to store file content
    * @param options Command options
-   * @returns Promise that resolves when the symbol is processed
+   * @returns Promise that resolves with the docs entries of the symbols
    */
-  async function processSymbolAsync(
-    symbol: Symbol & { branch?: Symbol[] },
-    projectPath: string,
+  async function processBatchAsync(
+    batch: Symbol[],
+    source: SourceFile,
     docsPath: string,
     indexer: TypescriptIndexer,
-    fileCache: {
-      currentFile: string;
-      fileContent: string;
-      existingDocSymbols: Map<string, any>;
-    },
-    options: {
-      debug?: boolean;
-      nwc?: string;
-      name?: string;
-      continue?: boolean;
-      threads?: number;
-      branch?: string;
-      dir?: string;
-      maxAmount?: number;
-    }
-  ): Promise<void> {
-    // ======================================
-    // NOTE: the file-caching is non-async and that's the
-    // only reason it works with our multi-threaded symbol handler,
-    // if async is introduced we'll have races with cache access
-
-    // Check if we need to load a new file
-    if (symbol.id.file !== fileCache.currentFile) {
-      fileCache.currentFile = symbol.id.file;
-      // The symbol.id.file is already relative to the workspace, so use it directly
-      fileCache.fileContent = fs
-        .readFileSync(path.join(projectPath, symbol.id.file))
-        .toString("utf8");
-
-      // Reset the existing doc symbols for the new file
-      fileCache.existingDocSymbols.clear();
-
-      // Load existing documentation if continue is enabled
-      if (options.continue) {
-        const docsFile = path.join(docsPath, symbol.id.file + ".json");
-
-        if (fs.existsSync(docsFile)) {
-          try {
-            const content = fs.readFileSync(docsFile, "utf8");
-            const lines = content.trim().split("\n");
-
-            for (const line of lines) {
-              if (line.trim()) {
-                const docEntry = JSON.parse(line) as { type?: string };
-                // Skip non-symbol entries (file summaries, etc.)
-                if (docEntry.type && docEntry.type !== "symbol") continue;
-
-                const docSymbol = docEntry as Symbol;
-                fileCache.existingDocSymbols.set(docSymbol.id.hash, docSymbol);
-                debugCli(
-                  `Loaded existing documentation for symbol: ${docSymbol.id.name} (hash: ${docSymbol.id.hash})`
-                );
-              }
-            }
-
-            debugCli(
-              `Loaded ${fileCache.existingDocSymbols.size} documented symbols from ${docsFile}`
-            );
-          } catch (error) {
-            debugError(
-              `Error reading existing doc file: ${(error as Error).message}`
-            );
-          }
-        }
-      }
-    }
+    options: GenerateOptions
+  ): Promise<any[]> {
+    // All symbols of the batch are from the same file
+    const file = batch[0].id.file;
 
     debugCli(
-      `Processing file ${symbol.id.file} code ${fileCache.fileContent.length} symbol ${symbol.id.name}...`
+      `Processing file ${file} code ${source.content.length} symbols ${batch
+        .map((s) => s.id.name)
+        .join(",")}...`
     );
 
-    // If continue is enabled and this symbol is already documented, skip it
-    if (options.continue && fileCache.existingDocSymbols.has(symbol.id.hash)) {
-      debugCli(`Skipping already documented symbol: ${symbol.id.name} (hash: ${symbol.id.hash})`);
-      return;
-    }
-    // sync section
-    // ========================================================
+    // If continue is enabled, skip already documented symbols
+    const pending = batch.filter((symbol) => {
+      if (options.continue && source.documented.has(symbol.id.hash)) {
+        debugCli(
+          `Skipping already documented symbol: ${symbol.id.name} (hash: ${symbol.id.hash})`
+        );
+        return false;
+      }
+      return true;
+    });
+    if (!pending.length) return [];
 
-    const docs = await indexer.processSymbol(
-      symbol.id.file,
-      fileCache.fileContent,
-      symbol
+    const docsByHash = await indexer.processSymbols(
+      file,
+      source.content,
+      pending,
+      related.build(pending)
     );
-    console.log("docs: ", JSON.stringify(docs, null, 2));
 
-    const info = {
-      ...symbol,
-      ...docs,
-    };
+    const entries: any[] = [];
+    for (const symbol of pending) {
+      const docs = docsByHash.get(symbol.id.hash);
+      if (docs instanceof InvalidResponseError) {
+        debugError(
+          `Failed to document symbol ${symbol.id.name}: ${docs.message}`
+        );
+        entries.push(
+          createFailedEntry("symbol", file, docs.message, {
+            id: symbol.id,
+            start: symbol.start,
+            end: symbol.end,
+            reply: docs.content,
+          })
+        );
+        appendFailed(docsPath, {
+          kind: "symbol",
+          path: file,
+          hash: symbol.id.hash,
+          name: symbol.id.name,
+          reason: docs.message,
+        });
+        continue;
+      }
+      console.log("docs: ", JSON.stringify(docs, null, 2));
 
-    // Since each workspace has its own INDEXER_DIR, no need for workspace prefix
-    const docsFile = path.join(docsPath, symbol.id.file + ".json");
+      entries.push({
+        ...symbol,
+        ...docs,
+      });
+    }
+    return entries;
+  }
 
-    // Ensure the directory structure exists before writing
-    const docsFileDir = path.dirname(docsFile);
-    if (!fs.existsSync(docsFileDir)) {
-      fs.mkdirSync(docsFileDir, { recursive: true });
+  /**
+   * Read a source file and the hashes of its documented symbols
+   *
+   * @param file The workspace-relative path of the file
+   * @returns The source file
+   */
+  function loadSourceFile(file: string): SourceFile {
+    // The symbol.id.file is already relative to the workspace, so use it directly
+    const content = fs
+      .readFileSync(path.join(workspacePath, file))
+      .toString("utf8");
+
+    // Load existing documentation if continue is enabled
+    const documented = new Set<string>();
+    if (options.continue) {
+      const docsFile = path.join(docsPath, file + ".json");
+      for (const entry of readDocEntries(docsFile)) {
+        if (isSymbolEntry(entry)) documented.add(entry.id.hash);
+      }
+      debugCli(`Loaded ${documented.size} documented symbols from ${docsFile}`);
     }
 
-    fs.appendFileSync(docsFile, JSON.stringify(info) + "\n");
+    return { content, documented };
   }
 
-  // Initialize the file cache
-  const fileCache = {
-    currentFile: "",
-    fileContent: "",
-    existingDocSymbols: new Map<string, any>(),
-  };
-
   // Get the number of threads (default to 1 if not specified)
   const numThreads = options.threads || 1;
   debugCli(`Processing with ${numThreads} parallel threads`);
 
-  // Process symbols in parallel
-  const activePromises: Promise<void>[] = [];
-  let nextSymbolIndex = 0;
+  // Sources of the files being processed, every thread works on at most
+  // one file at a time so this fits all of them
+  const sources = new LruCache<string, SourceFile>(
+    Math.max(numThreads * 2, MIN_FILE_CACHE_SIZE)
+  );
 
-  // Helper function to process the next symbol
-  const processNextSymbol = () => {
-    if (nextSymbolIndex >= symbolInfos.length)
-      throw new Error("No more symbols");
+  // Docs of a file are written in the order of its batches
+  const writer = new OrderedDocsWriter();
+
+  // Consecutive symbols of the same file are documented in one request
+  const units = groupFileWorkUnits(symbolInfos, options.batchSize || 1);
+
+  // Batches of all files go in the order of their first symbol in
+  // symbolInfos, so leaf types are documented first across files too
+  const rank = new Map(symbolInfos.map((s, i) => [s.id.hash, i]));
+  const tasks = units
+    .flatMap((unit) =>
+      unit.batches.map((batch, part) => ({
+        unit,
+        batch,
+        part,
+        rank: Math.min(...batch.map((s) => rank.get(s.id.hash)!)),
+        after: [] as number[],
+      }))
+    )
+    .sort((a, b) => a.rank - b.rank);
+
+  // With several threads a batch waits for the earlier batches that
+  // document its dependencies, dependencies on later batches are cycles
+  // and aren't waited for
+  if (options.contextTokens !== 0) {
+    const taskOf = new Map<string, number>();
+    tasks.forEach((task, i) => {
+      for (const s of task.batch) taskOf.set(s.id.hash, i);
+    });
+    tasks.forEach((task, i) => {
+      const after = new Set<number>();
+      for (const s of task.batch) {
+        for (const hash of related.dependencyHashes(s)) {
+          const j = taskOf.get(hash);
+          if (j !== undefined && j < i) after.add(j);
+        }
+      }
+      task.after = Array.from(after);
+    });
+  }
+  debugCli(
+    `Processing ${symbolInfos.length} symbols of ${units.length} files in ${tasks.length} batches`
+  );
 
-    const symbol = symbolInfos[nextSymbolIndex];
-    nextSymbolIndex++;
+  // Process batches in parallel
+  const activePromises: Promise<void>[] = [];
+  // Settles when the task is done, whether it failed or not
+  const taskDone: Promise<void>[] = [];
+  let nextTaskIndex = 0;
+  let stopped = false;
+
+  // Helper function to process the next batch
+  const processNextBatch = () => {
+    if (nextTaskIndex >= tasks.length) throw new Error("No more symbols");
+
+    const { unit, batch, part, after } = tasks[nextTaskIndex];
+    const index = nextTaskIndex;
+    nextTaskIndex++;
+
+    const docsFile = path.join(docsPath, unit.file + ".json");
+    const names = batch.map((s) => s.id.name).join(",");
+    const inBatch = (item: FailedItem) =>
+      item.kind === "symbol" && batch.some((s) => s.id.hash === item.hash);
+    const run = () =>
+      withRetry(
+        () =>
+          processBatchAsync(
+            batch,
+            sources.getOrLoad(unit.file, loadSourceFile),
+            docsPath,
+            indexer,
+            options
+          ),
+        { retries: options.retries, isTransient: isRetryable, label: names }
+      ).then(
+        (entries) => {
+          // Failure records of the batch are replaced by its new entries
+          retries.resolve(inBatch);
+          writer.write(docsFile, part, entries);
+          for (const entry of entries)
+            if (isSymbolEntry(entry))
+              related.addSummary(entry.id.hash, entry.summary);
+        },
+        (error) => {
+          // Let the following batches of the file be written
+          writer.skip(docsFile, part);
+
+          debugError(`Error processing symbols ${names}: ${error.message}`);
+          // Re-throw to ensure Promise.race catches it and stops the run
+          if (error instanceof BudgetExceededError) throw error;
+
+          // Queue for --retry-failed and go on with other symbols
+          for (const symbol of batch) {
+            appendFailed(docsPath, {
+              kind: "symbol",
+              path: symbol.id.file,
+              hash: symbol.id.hash,
+              name: symbol.id.name,
+              reason: error.message,
+            });
+          }
+          retries.resolve(inBatch);
+        }
+      );
 
-    return processSymbolAsync(
-      symbol,
-      workspacePath,
-      docsPath,
-      indexer,
-      fileCache,
-      options
-    ).catch((error) => {
-      debugError(`Error processing symbol ${symbol.id.name}: ${error.message}`);
-      // Re-throw to ensure Promise.race catches it
-      throw error;
+    if (after.length)
+      debugCli(`Symbols ${names} wait for ${after.length} earlier batches`);
+    const promise = Promise.all(after.map((i) => taskDone[i])).then(() => {
+      // The run stopped while waiting, leave the batch to --continue
+      if (stopped) {
+        writer.skip(docsFile, part);
+        return;
+      }
+      return run();
     });
+    taskDone[index] = promise.catch(() => {});
+    return promise;
   };
 
   // Initial filling of the active promises array
   while (
     activePromises.length < numThreads &&
-    nextSymbolIndex < symbolInfos.length
+    nextTaskIndex < tasks.length
   ) {
-    const promise = processNextSymbol();
+    const promise = processNextBatch();
     activePromises.push(promise);
   }
 
@@ -573,19 +969,25 @@ async function processWorkspace(
       }
 
       // Add a new promise if there are more symbols to process
-      if (nextSymbolIndex < symbolInfos.length) {
-        const newPromise = processNextSymbol();
+      if (nextTaskIndex < tasks.length) {
+        const newPromise = processNextBatch();
         activePromises.push(newPromise);
       } else {
         debugCli("No more symbols");
       }
     } catch (error) {
       debugError(`Error in parallel processing: ${(error as Error).message}`);
+      stopped = true;
+      // Let the in-flight requests finish and write their docs
+      await Promise.allSettled(activePromises);
       // stop
       throw error;
     }
   }
 
+  if (writer.pendingParts())
+    debugError(`${writer.pendingParts()} batches of docs were not written`);
+
   debugCli(
     "Symbol processing complete. Starting file and directory summaries..."
   );
@@ -595,7 +997,9 @@ async function processWorkspace(
     workspacePath,
     docsPath,
     indexer,
-    symbolInfos,
+    allSymbolInfos,
+    summaryPaths,
+    retries,
     options
   );
 
@@ -603,24 +1007,187 @@ async function processWorkspace(
 }
 
 /**
- * Process file and directory summaries after symbol processing
+ * Group symbols by file and split each file's symbols into batches,
+ * files keep the order of their first symbol
+ *
+ * @param symbols - Symbols to document
+ * @param batchSize - Max symbols per batch
+ * @returns One work unit per file
  */
-async function processFileAndDirSummaries(
+function groupFileWorkUnits(
+  symbols: Symbol[],
+  batchSize: number
+): FileWorkUnit[] {
+  const byFile = new Map<string, Symbol[]>();
+  for (const symbol of symbols) {
+    const fileSymbols = byFile.get(symbol.id.file);
+    if (fileSymbols) fileSymbols.push(symbol);
+    else byFile.set(symbol.id.file, [symbol]);
+  }
+
+  return Array.from(byFile, ([file, fileSymbols]) => ({
+    file,
+    batches: groupSymbolBatches(fileSymbols, batchSize),
+  }));
+}
+
+/**
+ * Split symbols into batches of up to batchSize consecutive symbols
+ * of the same file
+ *
+ * @param symbols - Symbols ordered by file
+ * @param batchSize - Max symbols per batch
+ * @returns The batches
+ */
+function groupSymbolBatches<T extends Symbol>(
+  symbols: T[],
+  batchSize: number
+): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  for (const symbol of symbols) {
+    if (
+      batch.length &&
+      (batch.length >= batchSize || batch[0].id.file !== symbol.id.file)
+    ) {
+      batches.push(batch);
+      batch = [];
+    }
+    batch.push(symbol);
+  }
+  if (batch.length) batches.push(batch);
+  return batches;
+}
+
+/**
+ * Dry-run: build every request that processing the workspace would send and
+ * estimate its cost, without executing requests or writing anything.
+ * Symbols and summaries that --continue/incremental mode would skip are skipped.
+ *
+ * @param workspacePath - Path to the workspace
+ * @param workspacePrefix - Workspace path relative to the project root, with trailing "/"
+ * @param docsPath - Path to the workspace INDEXER_DIR
+ * @param indexer - Indexer to build requests and get quotes with
+ * @param related - Context of related declarations for symbol requests
+ * @param symbolInfos - Workspace symbols
+ * @param summaryPaths - Files and dirs to summarize, as returned by collectSummaryPaths
+ * @param plan - Incremental plan, its changes to the docs are taken into account
+ * @param options - Command options
+ * @returns Estimates of all requests
+ */
+async function estimateWorkspace(
   workspacePath: string,
+  workspacePrefix: string,
   docsPath: string,
   indexer: TypescriptIndexer,
+  related: RelatedContext,
   symbolInfos: (Symbol & { parentId?: StableSymbolId })[],
-  options: {
-    debug?: boolean;
-    nwc?: string;
-    name?: string;
-    continue?: boolean;
-    threads?: number;
-    branch?: string;
-    dir?: string;
-    maxAmount?: number;
+  summaryPaths: string[],
+  plan: IncrementalPlan | undefined,
+  options: GenerateOptions
+): Promise<RequestEstimate[]> {
+  const estimator = new CostEstimator(indexer, { offline: options.offline });
+  const estimates: RequestEstimate[] = [];
+  const skipExisting = !!(
+    options.continue ||
+    options.since ||
+    options.incremental
+  );
+
+  // Docs entries of a source file as they'd be after applying the plan
+  const readExisting = (file: string): any[] => {
+    if (!skipExisting) return [];
+    const docsFile = path.join(docsPath, file + ".json");
+    if (plan?.rewrites.has(docsFile)) return plan.rewrites.get(docsFile)!;
+    if (plan?.removals.includes(docsFile)) return [];
+    return readDocEntries(docsFile);
+  };
+
+  let currentFile = "";
+  let fileContent = "";
+  let documented = new Set<string>();
+  const batches = groupFileWorkUnits(
+    symbolInfos,
+    options.batchSize || 1
+  ).flatMap((unit) => unit.batches);
+  for (const batch of batches) {
+    const file = batch[0].id.file;
+    if (file !== currentFile) {
+      currentFile = file;
+      fileContent = fs.readFileSync(path.join(workspacePath, file), "utf8");
+      documented = new Set(
+        readExisting(file)
+          .filter((e) => !e.type || e.type === "symbol")
+          .map((e) => e.id?.hash)
+      );
+    }
+
+    const pending = batch.filter((s) => !documented.has(s.id.hash));
+    if (!pending.length) continue;
+
+    const context = related.build(pending);
+    const request =
+      pending.length === 1
+        ? indexer.buildSymbolRequest(file, fileContent, pending[0], context)
+        : indexer.buildSymbolsRequest(file, fileContent, pending, context);
+    estimates.push(
+      await estimator.estimate(
+        "symbol",
+        workspacePrefix + file,
+        request,
+        pending.map((s) => s.id.name).join(","),
+        pending.length
+      )
+    );
   }
-): Promise<void> {
+
+  const ignore = new IgnoreMatcher(workspacePath);
+  for (const pathItem of summaryPaths) {
+    if (pathItem.endsWith("/")) {
+      const dirPath = pathItem === "/" ? "" : pathItem.slice(0, -1);
+      const summaryFile = path.join(docsPath, dirPath, "summary.json");
+      const stale = plan?.staleDirs.includes(dirPath || "/");
+      if (
+        skipExisting &&
+        !stale &&
+        readDocEntries(summaryFile).some((e) => e.type === "dir")
+      )
+        continue;
+
+      const sourceDirPath = path.join(workspacePath, dirPath);
+      const tree = fs.existsSync(sourceDirPath)
+        ? generateFileTree(sourceDirPath, ignore)
+        : "";
+      const request = indexer.buildDirRequest(dirPath || "/", tree, "");
+      estimates.push(
+        await estimator.estimate("dir", workspacePrefix + dirPath, request)
+      );
+    } else {
+      if (readExisting(pathItem).some((e) => e.type === "file")) continue;
+
+      const fullFilePath = path.join(workspacePath, pathItem);
+      if (!fs.existsSync(fullFilePath)) continue;
+      const request = indexer.buildFileRequest(
+        pathItem,
+        fs.readFileSync(fullFilePath, "utf8")
+      );
+      estimates.push(
+        await estimator.estimate("file", workspacePrefix + pathItem, request)
+      );
+    }
+  }
+
+  return estimates;
+}
+
+/**
+ * Collect the files and dirs that get summaries: files with symbols and all
+ * their parent dirs, dirs have a trailing "/" and the workspace root is "/".
+ *
+ * @param symbolInfos - Workspace symbols
+ * @returns Paths sorted by length desc, so leaves of the tree come first
+ */
+function collectSummaryPaths(symbolInfos: Symbol[]): string[] {
   // Collect unique file names from all symbols
   const uniqueFiles = new Set<string>();
   const uniquePaths = new Set<string>();
@@ -650,11 +1217,28 @@ async function processFileAndDirSummaries(
   }
 
   // Sort unique paths by length desc to process leaves of the tree first
-  const sortedPaths = Array.from(uniquePaths).sort(
-    (a, b) => b.length - a.length
+  return Array.from(uniquePaths).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Process file and directory summaries after symbol processing
+ */
+async function processFileAndDirSummaries(
+  workspacePath: string,
+  docsPath: string,
+  indexer: TypescriptIndexer,
+  symbolInfos: (Symbol & { parentId?: StableSymbolId })[],
+  only: Set<string> | undefined,
+  retries: FailedRetries,
+  options: GenerateOptions
+): Promise<void> {
+  const sortedPaths = collectSummaryPaths(symbolInfos).filter(
+    (p) => !only || only.has(p)
   );
   debugCli(`Processing ${sortedPaths.length} paths (files and directories)`);
 
+  const ignore = new IgnoreMatcher(workspacePath);
+
   // Process each path
   for (const pathItem of sortedPaths) {
     const isDirectory = pathItem.endsWith("/");
@@ -666,6 +1250,8 @@ async function processFileAndDirSummaries(
         docsPath,
         cleanPath,
         indexer,
+        ignore,
+        retries,
         options
       );
     } else {
@@ -674,6 +1260,7 @@ async function processFileAndDirSummaries(
         docsPath,
         cleanPath,
         indexer,
+        retries,
         options
       );
     }
@@ -688,9 +1275,12 @@ async function processFileSummary(
   docsPath: string,
   filePath: string,
   indexer: TypescriptIndexer,
-  options: { continue?: boolean }
+  retries: FailedRetries,
+  options: GenerateOptions
 ): Promise<void> {
   const outputFile = path.join(docsPath, filePath + ".json");
+  const resolveQueued = () =>
+    retries.resolve((item) => item.kind === "file" && item.path === filePath);
 
   // Check if --continue option is given and file already has "type":"file" line
   if (options.continue && fs.existsSync(outputFile)) {
@@ -698,6 +1288,7 @@ async function processFileSummary(
       const content = fs.readFileSync(outputFile, "utf8");
       if (content.includes('"type":"file"')) {
         debugCli(`Skipping file summary for ${filePath} (already exists)`);
+        resolveQueued();
         return;
       }
     } catch (error) {
@@ -722,7 +1313,10 @@ async function processFileSummary(
     const fileContent = fs.readFileSync(fullFilePath, "utf8");
 
     // Process the file with TypescriptIndexer
-    const result = await indexer.processFile(filePath, fileContent);
+    const result = await withRetry(
+      () => indexer.processFile(filePath, fileContent),
+      { retries: options.retries, isTransient: isRetryable, label: filePath }
+    );
 
     // Merge with metadata and write to output
     const fileDoc = {
@@ -737,9 +1331,25 @@ async function processFileSummary(
       fs.mkdirSync(outputDir, { recursive: true });
     }
 
+    resolveQueued();
     fs.appendFileSync(outputFile, JSON.stringify(fileDoc) + "\n");
     debugCli(`File summary appended to: ${outputFile}`);
   } catch (error) {
+    if (error instanceof BudgetExceededError) throw error;
+    // The previous failure is replaced by this one
+    resolveQueued();
+    if (error instanceof InvalidResponseError) {
+      const failed = createFailedEntry("file", filePath, error.message, {
+        reply: error.content,
+      });
+      fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+      fs.appendFileSync(outputFile, JSON.stringify(failed) + "\n");
+    }
+    appendFailed(docsPath, {
+      kind: "file",
+      path: filePath,
+      reason: (error as Error).message,
+    });
     debugError(
       `Error processing file summary for ${filePath}: ${
         (error as Error).message
@@ -756,13 +1366,18 @@ async function processDirectorySummary(
   docsPath: string,
   dirPath: string,
   indexer: TypescriptIndexer,
-  options: { continue?: boolean }
+  ignore: IgnoreMatcher,
+  retries: FailedRetries,
+  options: GenerateOptions
 ): Promise<void> {
   // Handle workspace root case where dirPath is "/"
   const normalizedDirPath = dirPath === "/" ? "" : dirPath;
   const outputFile = normalizedDirPath
     ? path.join(docsPath, normalizedDirPath, "summary.json")
     : path.join(docsPath, "summary.json");
+  const queuePath = normalizedDirPath ? normalizedDirPath + "/" : "/";
+  const resolveQueued = () =>
+    retries.resolve((item) => item.kind === "dir" && item.path === queuePath);
 
   // Check if --continue option is given and summary.json already has "type":"dir" line
   if (options.continue && fs.existsSync(outputFile)) {
@@ -770,6 +1385,7 @@ async function processDirectorySummary(
       const content = fs.readFileSync(outputFile, "utf8");
       if (content.includes('"type":"dir"')) {
         debugCli(`Skipping directory summary for ${dirPath} (already exists)`);
+        resolveQueued();
         return;
       }
     } catch (error) {
@@ -854,9 +1470,7 @@ async function processDirectorySummary(
       : workspacePath;
     let tree = "";
     if (fs.existsSync(sourceDirPath)) {
-      const gitignorePath = path.join(workspacePath, ".gitignore");
-      const gitignorePatterns = parseGitignore(gitignorePath);
-      tree = generateFileTree(sourceDirPath, gitignorePatterns);
+      tree = generateFileTree(sourceDirPath, ignore);
     }
 
     // Prepare summaries text
@@ -865,7 +1479,10 @@ async function processDirectorySummary(
       .join("\n");
 
     // Process the directory with TypescriptIndexer
-    const result = await indexer.processDir(dirPath, tree, summariesText);
+    const result = await withRetry(
+      () => indexer.processDir(dirPath, tree, summariesText),
+      { retries: options.retries, isTransient: isRetryable, label: dirPath }
+    );
 
     // Merge with metadata and write to output
     const dirDoc = {
@@ -880,9 +1497,28 @@ async function processDirectorySummary(
       fs.mkdirSync(outputDir, { recursive: true });
     }
 
+    resolveQueued();
     fs.writeFileSync(outputFile, JSON.stringify(dirDoc) + "\n");
     debugCli(`Directory summary written to: ${outputFile}`);
   } catch (error) {
+    if (error instanceof BudgetExceededError) throw error;
+    // The previous failure is replaced by this one
+    resolveQueued();
+    if (error instanceof InvalidResponseError) {
+      const failed = createFailedEntry(
+        "dir",
+        dirPath === "/" ? "/" : dirPath + "/",
+        error.message,
+        { reply: error.content }
+      );
+      fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+      fs.writeFileSync(outputFile, JSON.stringify(failed) + "\n");
+    }
+    appendFailed(docsPath, {
+      kind: "dir",
+      path: dirPath === "/" ? "/" : dirPath + "/",
+      reason: (error as Error).message,
+    });
     debugError(
       `Error processing directory summary for ${dirPath}: ${
         (error as Error).message
@@ -897,13 +1533,12 @@ async function processDirectorySummary(
  * @param program - Commander instance to register the command to
  */
 export function registerGenerateCommand(program: Command): void {
-  program
+  const command = program
     .command("generate")
     .description(`Generate docs for package symbols in '${INDEXER_DIR}' subdir`)
     .argument("<path_to_project>", "Path to the project to process")
     .option("-d, --debug", "Enable debug output")
     .option("--nwc <string>", "Lightning Node Connect (NWC) string for payment")
-    .option("-n, --name", "Symbol name to find if it is exported")
     .option(
       "-c, --continue",
       "Continue processing, skipping symbols that are already documented"
@@ -914,6 +1549,12 @@ export function registerGenerateCommand(program: Command): void {
       (value) => parseInt(value, 10),
       1
     )
+    .option(
+      "--batch-size <number>",
+      "Number of symbols of the same file to document in one request",
+      (value) => parseInt(value, 10),
+      1
+    )
     .option(
       "-b, --branch <string>",
       "Expected git branch (default: main)",
@@ -923,11 +1564,65 @@ export function registerGenerateCommand(program: Command): void {
       "--dir <string>",
       `Output directory for generated docs (default: ${INDEXER_DIR})`
     )
+    .option(
+      "--since <commit>",
+      "Incremental mode: reuse docs generated at <commit>, re-document only changed symbols"
+    )
+    .option(
+      "-i, --incremental",
+      "Incremental mode using the commit recorded in commit.git by the previous run"
+    )
+    .option(
+      "--backend <name>",
+      "LLM backend: askexperts (paid with NWC), openai (OpenAI-compatible endpoint) or stub (offline placeholder docs)",
+      "askexperts"
+    )
+    .option(
+      "--base-url <url>",
+      "Base URL of the OpenAI-compatible endpoint for the openai backend (default: OpenAI)"
+    )
+    .option(
+      "--api-key <key>",
+      "API key for the openai backend (default: OPENAI_API_KEY env var)"
+    )
+    .option("--model <model>", "Model to generate docs with")
+    .option(
+      "--fallback-model <model>",
+      "Model to retry with if the main model returns invalid output"
+    )
+    .option(
+      "--dry-run",
+      "Build all requests and report projected cost without executing them or writing docs"
+    )
+    .option(
+      "--offline",
+      "With --dry-run, estimate request sizes locally instead of getting quotes"
+    )
+    .option(
+      "--budget <sats>",
+      "Maximum amount in sats to spend on the whole run, stops cleanly once reached",
+      (value) => parseInt(value, 10)
+    )
+    .option(
+      "--retries <number>",
+      "Number of retries with exponential backoff for transient payment/relay/LLM errors (default: 3)",
+      (value) => parseInt(value, 10),
+      3
+    )
+    .option(
+      "--retry-failed",
+      `Only process symbols, files and dirs queued in ${INDEXER_DIR}/${FAILED_FILE} by previous runs`
+    )
+    .option(
+      "--context-tokens <number>",
+      `Token budget for declarations of related symbols from other files passed with each symbol request, 0 to disable (default: ${DEFAULT_CONTEXT_TOKENS})`,
+      (value) => parseInt(value, 10)
+    )
     .option(
       "--max-amount <sats>",
       "Maximum amount in sats to spend per symbol (default: 100)",
       (value) => parseInt(value, 10),
       100
-    )
-    .action(processProject);
+    );
+  addSymbolFilterOptions(command).action(processProject);
 }
@@ -8,6 +8,16 @@ import { registerGenerateCommand } from './generate.js';
 import { initializeDebug, debugCli } from '../utils/debug.js';
 import { registerSymbolsCommand } from './symbols.js';
 import { registerPrepareCommand } from './prepare.js';
+import { registerStatusCommand } from './status.js';
+import { registerCheckCommand } from './check.js';
+import { registerLedgerCommand } from './ledger.js';
+import { registerApiCommand } from './api.js';
+import { registerSemverCommand } from './semver.js';
+import { registerSearchCommand } from './search.js';
+import { registerEvalCommand } from './eval.js';
+import { registerMcpCommand } from './mcp.js';
+import { registerLspCommand } from './lsp.js';
+import { registerExportHtmlCommand } from './exportHtml.js';
 
 export const INDEXER_DIR = ".askexperts";
 
@@ -36,6 +46,16 @@ program
 registerGenerateCommand(program);
 registerSymbolsCommand(program);
 registerPrepareCommand(program);
+registerStatusCommand(program);
+registerCheckCommand(program);
+registerLedgerCommand(program);
+registerApiCommand(program);
+registerSemverCommand(program);
+registerSearchCommand(program);
+registerEvalCommand(program);
+registerMcpCommand(program);
+registerLspCommand(program);
+registerExportHtmlCommand(program);
 
 // Parse command line arguments and execute
 debugCli('Parsing command line arguments');
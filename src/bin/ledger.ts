@@ -0,0 +1,206 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import { INDEXER_DIR } from "./index.js";
+import {
+  debugCli,
+  debugError,
+  enableDebugAll,
+  outputStructured,
+} from "../utils/debug.js";
+import { extractWorkspaces } from "../utils/workspace.js";
+import { LEDGER_FILE, LedgerEntry, readLedger } from "../utils/ledger.js";
+
+type LedgerOptions = {
+  debug?: boolean;
+  dir?: string;
+  json?: boolean;
+};
+
+type SpendSummary = {
+  requests: number;
+  fallbacks: number;
+  /** Requests that failed after they were paid for */
+  failed: number;
+  amountSats: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+type WorkspaceSpend = SpendSummary & {
+  workspace: string;
+  files: Record<string, SpendSummary>;
+};
+
+function emptySummary(): SpendSummary {
+  return {
+    requests: 0,
+    fallbacks: 0,
+    failed: 0,
+    amountSats: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+  };
+}
+
+function addEntry(summary: SpendSummary, entry: LedgerEntry) {
+  summary.requests++;
+  if (entry.fallback) summary.fallbacks++;
+  if (entry.error) summary.failed++;
+  summary.amountSats += entry.amountSats || 0;
+  summary.promptTokens += entry.usage?.prompt_tokens || 0;
+  summary.completionTokens += entry.usage?.completion_tokens || 0;
+}
+
+/**
+ * Summarize the ledger of a single workspace per file
+ *
+ * @param workspacePath - Path to the workspace
+ * @param rootProjectPath - Path to the root project (for relative paths)
+ * @param options - Command options
+ * @returns Workspace spend, or undefined if it has no ledger
+ */
+function summarizeWorkspace(
+  workspacePath: string,
+  rootProjectPath: string,
+  options: LedgerOptions
+): WorkspaceSpend | undefined {
+  const docsPath = options.dir
+    ? path.resolve(process.cwd(), options.dir)
+    : path.join(workspacePath, INDEXER_DIR);
+  const ledgerFile = path.join(docsPath, LEDGER_FILE);
+  if (!fs.existsSync(ledgerFile)) {
+    debugCli(`No ledger in ${docsPath}`);
+    return;
+  }
+
+  const result: WorkspaceSpend = {
+    workspace: path.relative(rootProjectPath, workspacePath) || ".",
+    ...emptySummary(),
+    files: {},
+  };
+  for (const entry of readLedger(ledgerFile)) {
+    // Dir summaries are listed with trailing "/"
+    const key =
+      entry.kind === "dir" ? entry.path.replace(/\/?$/, "/") : entry.path;
+    if (!result.files[key]) result.files[key] = emptySummary();
+    addEntry(result.files[key], entry);
+    addEntry(result, entry);
+  }
+  return result;
+}
+
+/**
+ * Print the spend summary as a table
+ *
+ * @param spends - Per-workspace spend
+ */
+function printLedgerTable(spends: WorkspaceSpend[]) {
+  const header = [
+    "path",
+    "requests",
+    "fallbacks",
+    "failed",
+    "sats",
+    "prompt tokens",
+    "completion tokens",
+  ];
+  const toRow = (name: string, s: SpendSummary) => [
+    name,
+    String(s.requests),
+    String(s.fallbacks),
+    String(s.failed),
+    String(s.amountSats),
+    String(s.promptTokens),
+    String(s.completionTokens),
+  ];
+
+  const rows: string[][] = [];
+  const total = emptySummary();
+  for (const spend of spends) {
+    const prefix = spend.workspace === "." ? "" : spend.workspace + "/";
+    for (const file of Object.keys(spend.files).sort())
+      rows.push(toRow(prefix + file, spend.files[file]));
+    rows.push(toRow(`WORKSPACE ${spend.workspace}`, spend));
+    for (const key of Object.keys(total) as (keyof SpendSummary)[])
+      total[key] += spend[key];
+  }
+  rows.push(toRow("TOTAL", total));
+
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i].length))
+  );
+  const format = (cells: string[]) =>
+    cells
+      .map((c, i) => (i ? c.padStart(widths[i]) : c.padEnd(widths[i])))
+      .join("  ")
+      .trimEnd();
+
+  console.log(format(header));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  for (const row of rows) console.log(format(row));
+}
+
+/**
+ * Summarize the spend recorded by 'generate' in the ledger
+ *
+ * @param projectPath - Path to the project
+ * @param options - Command options
+ */
+async function processLedger(
+  projectPath: string,
+  options: LedgerOptions
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  try {
+    const absolutePath = path.resolve(process.cwd(), projectPath);
+    if (!fs.existsSync(absolutePath)) {
+      debugError(`Project directory not found at path: ${absolutePath}`);
+      process.exit(1);
+    }
+
+    const workspaces = extractWorkspaces(absolutePath);
+    const workspacePaths = workspaces.length
+      ? workspaces.map((w) => w.path)
+      : [absolutePath];
+
+    const spends: WorkspaceSpend[] = [];
+    for (const workspacePath of workspacePaths) {
+      const spend = summarizeWorkspace(workspacePath, absolutePath, options);
+      if (spend) spends.push(spend);
+    }
+
+    if (options.json) {
+      outputStructured(spends);
+    } else {
+      printLedgerTable(spends);
+    }
+  } catch (error) {
+    debugError(`Error reading ledger: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the 'ledger' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerLedgerCommand(program: Command): void {
+  program
+    .command("ledger")
+    .description(
+      `Summarize spend recorded in '${INDEXER_DIR}/${LEDGER_FILE}' per workspace and file`
+    )
+    .argument("<path_to_project>", "Path to the project")
+    .option("-d, --debug", "Enable debug output")
+    .option(
+      "--dir <string>",
+      `Directory with generated docs (default: ${INDEXER_DIR})`
+    )
+    .option("--json", "Output machine-readable JSON")
+    .action(processLedger);
+}
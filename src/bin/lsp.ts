@@ -0,0 +1,282 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import { fileURLToPath, pathToFileURL } from "url";
+import { INDEXER_DIR } from "./index.js";
+import { debugCli, debugError, enableDebugAll } from "../utils/debug.js";
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcConnection,
+  JsonRpcError,
+} from "../utils/jsonRpc.js";
+import { ProjectIndex, SymbolInfo } from "../utils/projectIndex.js";
+
+type LspOptions = {
+  debug?: boolean;
+  docs?: string;
+};
+
+type Position = { line: number; character: number };
+type TextDocumentPositionParams = {
+  textDocument: { uri: string };
+  position: Position;
+};
+
+// TextDocumentSyncKind.Full, clients send the whole text on every change
+const SYNC_FULL = 1;
+
+/**
+ * Dotted name at a position of a text, like "Client.send" with the cursor
+ * on "send", or just the identifier under the cursor
+ *
+ * @returns Candidate names, the qualified one first
+ */
+function namesAt(text: string, position: Position): string[] {
+  const line = text.split(/\r?\n/)[position.line] || "";
+  const isIdent = (c: string | undefined) => !!c && /[\w$]/.test(c);
+
+  let start = position.character;
+  let end = position.character;
+  while (isIdent(line[start - 1])) start--;
+  while (isIdent(line[end])) end++;
+  if (start === end) return [];
+  const name = line.slice(start, end);
+
+  // Containers before the identifier, i.e. "a.b" of "a.b.c" with the cursor on b
+  let qualifiedStart = start;
+  while (
+    line[qualifiedStart - 1] === "." &&
+    isIdent(line[qualifiedStart - 2])
+  ) {
+    qualifiedStart--;
+    while (isIdent(line[qualifiedStart - 1])) qualifiedStart--;
+  }
+  const qualified = line.slice(qualifiedStart, end);
+  return qualified !== name ? [qualified, name] : [name];
+}
+
+/**
+ * LSP range of a symbol declaration, SymbolInfo positions are 1-based
+ */
+function symbolRange(symbol: SymbolInfo) {
+  const [startLine, startColumn] = symbol.start.split(":").map(Number);
+  const [endLine, endColumn] = symbol.end.split(":").map(Number);
+  return {
+    start: { line: startLine - 1, character: startColumn - 1 },
+    end: { line: endLine - 1, character: endColumn - 1 },
+  };
+}
+
+/**
+ * Minimal language server: hover with the generated docs of project symbols
+ * and go-to-definition of symbols named in code, comments and Markdown docs.
+ * Symbols in TypeScript files are resolved with the type checker over the
+ * files on disk, elsewhere (and if the checker finds nothing) by name.
+ */
+class DocsLanguageServer {
+  private index: ProjectIndex;
+  private documents = new Map<string, string>();
+  private initialized = false;
+  private shutdownRequested = false;
+
+  constructor(index: ProjectIndex) {
+    this.index = index;
+  }
+
+  /**
+   * Register the handlers on the connection
+   */
+  attach(connection: JsonRpcConnection) {
+    connection.onRequest("initialize", () => {
+      this.initialized = true;
+      return {
+        capabilities: {
+          textDocumentSync: SYNC_FULL,
+          hoverProvider: true,
+          definitionProvider: true,
+        },
+        serverInfo: { name: "askexperts-coder" },
+      };
+    });
+    connection.onRequest("shutdown", () => {
+      this.shutdownRequested = true;
+      return null;
+    });
+    connection.onNotification("exit", () =>
+      process.exit(this.shutdownRequested ? 0 : 1)
+    );
+
+    connection.onNotification("textDocument/didOpen", (params) =>
+      this.documents.set(params.textDocument.uri, params.textDocument.text)
+    );
+    connection.onNotification("textDocument/didChange", (params) => {
+      const changes = params.contentChanges || [];
+      if (changes.length)
+        this.documents.set(
+          params.textDocument.uri,
+          changes[changes.length - 1].text
+        );
+    });
+    connection.onNotification("textDocument/didClose", (params) =>
+      this.documents.delete(params.textDocument.uri)
+    );
+
+    connection.onRequest("textDocument/hover", (params) =>
+      this.hover(this.checkInitialized(params))
+    );
+    connection.onRequest("textDocument/definition", (params) =>
+      this.definition(this.checkInitialized(params))
+    );
+  }
+
+  private checkInitialized(params: TextDocumentPositionParams) {
+    if (!this.initialized) {
+      throw new JsonRpcError(
+        JSON_RPC_ERRORS.serverNotInitialized,
+        "Server not initialized"
+      );
+    }
+    return params;
+  }
+
+  /**
+   * Find the project symbol at the position
+   */
+  private resolve(params: TextDocumentPositionParams): SymbolInfo | undefined {
+    const { uri } = params.textDocument;
+    if (!uri.startsWith("file:")) return undefined;
+    const filePath = fileURLToPath(uri);
+
+    // The checker sees the saved file, only trust it if the name is the same
+    let text = this.documents.get(uri);
+    if (text === undefined && fs.existsSync(filePath))
+      text = fs.readFileSync(filePath, "utf8");
+    if (text === undefined) return undefined;
+    const names = namesAt(text, params.position);
+    if (!names.length) return undefined;
+
+    if (/\.[mc]?[jt]sx?$/.test(filePath)) {
+      const symbol = this.index.symbolAtPosition(
+        filePath,
+        params.position.line,
+        params.position.character
+      );
+      if (symbol && names.includes(symbol.name)) return symbol;
+    }
+
+    for (const name of names) {
+      const [symbol] = this.index.findSymbols(name);
+      if (symbol) return symbol;
+    }
+    return undefined;
+  }
+
+  private hover(params: TextDocumentPositionParams) {
+    const symbol = this.resolve(params);
+    if (!symbol) return null;
+
+    const doc = this.index.getSymbolDoc(symbol.hash);
+    if (!doc) return null;
+    const parts = ["```typescript\n" + doc.declaration.trim() + "\n```"];
+    if (doc.summary) parts.push(doc.summary);
+    if (doc.details) parts.push(doc.details);
+    if (!doc.summary && !doc.details)
+      parts.push(`_No generated docs, run \`askexperts-coder generate\`_`);
+
+    const [importPath] = this.index.pathsTo(symbol.hash) || [];
+    if (importPath)
+      parts.push(
+        "```typescript\n" +
+          importPath.import +
+          (importPath.access ? "\n" + importPath.access : "") +
+          "\n```"
+      );
+
+    const related = this.index.related(symbol.hash) || [];
+    if (related.length)
+      parts.push(
+        "Related: " +
+          related
+            .map((r) =>
+              r.file ? `\`${r.name}\` (${r.file})` : `\`${r.name}\``
+            )
+            .join(", ")
+      );
+
+    parts.push(`_${doc.kind} in ${doc.file}:${doc.start.split(":")[0]}_`);
+    return { contents: { kind: "markdown", value: parts.join("\n\n") } };
+  }
+
+  private definition(params: TextDocumentPositionParams) {
+    const symbol = this.resolve(params);
+    if (!symbol) return null;
+    return {
+      uri: pathToFileURL(this.index.absolutePath(symbol.file)).toString(),
+      range: symbolRange(symbol),
+    };
+  }
+}
+
+/**
+ * Serve hover and definitions of a project over LSP on stdio
+ *
+ * @param projectPath - Path to the project
+ * @param options - Command options
+ */
+async function processLsp(
+  projectPath: string,
+  options: LspOptions
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  const absolutePath = path.resolve(process.cwd(), projectPath);
+  if (!fs.existsSync(absolutePath)) {
+    // stdout belongs to the protocol
+    console.error(`Project directory not found at path: ${absolutePath}`);
+    process.exit(1);
+  }
+
+  try {
+    const index = new ProjectIndex(
+      absolutePath,
+      options.docs ? path.resolve(process.cwd(), options.docs) : INDEXER_DIR
+    );
+
+    // Analyze before accepting requests, so the first hover isn't slow
+    const workspaces = index.getWorkspaces();
+    debugCli(`Serving ${workspaces.length} workspaces of ${absolutePath}`);
+
+    const connection = new JsonRpcConnection(process.stdin, process.stdout);
+    new DocsLanguageServer(index).attach(connection);
+    connection.listen();
+    debugCli("Language server listening on stdio");
+  } catch (error) {
+    debugError(`Error starting language server: ${(error as Error).message}`);
+    console.error(
+      `Error starting language server: ${(error as Error).message}`
+    );
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the 'lsp' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerLspCommand(program: Command): void {
+  program
+    .command("lsp")
+    .description(
+      "Language server over stdio: hover shows the generated docs of symbols, go-to-definition works for names in docs"
+    )
+    .argument("<path_to_project>", "Path to the project")
+    .option("-d, --debug", "Enable debug output (to stderr)")
+    .option(
+      "--docs <path>",
+      `Path to the docs directory (default: ${INDEXER_DIR} of every workspace)`
+    )
+    .action(processLsp);
+}
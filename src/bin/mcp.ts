@@ -0,0 +1,195 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { INDEXER_DIR } from "./index.js";
+import { debugCli, debugError, enableDebugAll } from "../utils/debug.js";
+import { ProjectIndex } from "../utils/projectIndex.js";
+
+type McpOptions = {
+  debug?: boolean;
+  docs?: string;
+};
+
+const SYMBOL_REF_DESCRIPTION =
+  "Symbol hash from find_symbol, or a symbol name or qualified name like Class.method";
+
+/**
+ * Tool result with a JSON payload
+ */
+function jsonResult(data: any) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+/**
+ * Tool result for a symbol reference that didn't resolve
+ */
+function notFound(ref: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Symbol not found: ${ref}, use find_symbol to look it up`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Create the MCP server with the code index tools
+ *
+ * @param index - Index of the project
+ * @param version - Server version
+ * @returns The server, not connected
+ */
+function createMcpServer(index: ProjectIndex, version: string): McpServer {
+  const server = new McpServer({ name: "askexperts-coder", version });
+
+  server.registerTool(
+    "find_symbol",
+    {
+      description:
+        "Find symbols of the project by exact name (exports, declarations, or qualified names like Class.method). Returns hashes, kinds, files and lines.",
+      inputSchema: { name: z.string().describe("Symbol name") },
+    },
+    async ({ name }) => jsonResult(index.findSymbols(name))
+  );
+
+  server.registerTool(
+    "get_symbol_doc",
+    {
+      description:
+        "Get the declaration of a symbol with its generated summary and details",
+      inputSchema: { symbol: z.string().describe(SYMBOL_REF_DESCRIPTION) },
+    },
+    async ({ symbol }) => {
+      const doc = index.getSymbolDoc(symbol);
+      return doc ? jsonResult(doc) : notFound(symbol);
+    }
+  );
+
+  server.registerTool(
+    "paths_to",
+    {
+      description:
+        "Import statements and access expressions to reach a symbol from the package's public API, best first",
+      inputSchema: {
+        symbol: z.string().describe(SYMBOL_REF_DESCRIPTION),
+        include_internal: z
+          .boolean()
+          .optional()
+          .describe("Keep paths through modules not exposed by package.json exports"),
+      },
+    },
+    async ({ symbol, include_internal }) => {
+      const paths = index.pathsTo(symbol, include_internal);
+      return paths ? jsonResult(paths) : notFound(symbol);
+    }
+  );
+
+  server.registerTool(
+    "related",
+    {
+      description:
+        "Project symbols a symbol depends on: parameter, return, property and base types, and referenced values",
+      inputSchema: { symbol: z.string().describe(SYMBOL_REF_DESCRIPTION) },
+    },
+    async ({ symbol }) => {
+      const related = index.related(symbol);
+      return related ? jsonResult(related) : notFound(symbol);
+    }
+  );
+
+  server.registerTool(
+    "list_exports",
+    {
+      description:
+        "List exports of the project's packages with their import statements",
+      inputSchema: {
+        workspace: z
+          .string()
+          .optional()
+          .describe("Workspace path or package name, all workspaces if omitted"),
+        include_internal: z
+          .boolean()
+          .optional()
+          .describe("Also list exports of modules not exposed by package.json exports"),
+      },
+    },
+    async ({ workspace, include_internal }) =>
+      jsonResult(index.listExports(workspace, include_internal))
+  );
+
+  return server;
+}
+
+/**
+ * Serve the code index of a project over MCP on stdio
+ *
+ * @param projectPath - Path to the project
+ * @param options - Command options
+ * @param command - The command, to get the program version
+ */
+async function processMcp(
+  projectPath: string,
+  options: McpOptions,
+  command: Command
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  const absolutePath = path.resolve(process.cwd(), projectPath);
+  if (!fs.existsSync(absolutePath)) {
+    // stdout belongs to the protocol
+    console.error(`Project directory not found at path: ${absolutePath}`);
+    process.exit(1);
+  }
+
+  try {
+    const index = new ProjectIndex(
+      absolutePath,
+      options.docs ? path.resolve(process.cwd(), options.docs) : INDEXER_DIR
+    );
+
+    // Analyze before accepting requests, so the first tool call isn't slow
+    const workspaces = index.getWorkspaces();
+    debugCli(`Serving ${workspaces.length} workspaces of ${absolutePath}`);
+
+    const server = createMcpServer(
+      index,
+      command.parent?.version() || "0.0.0"
+    );
+    await server.connect(new StdioServerTransport());
+    debugCli("MCP server listening on stdio");
+  } catch (error) {
+    debugError(`Error starting MCP server: ${(error as Error).message}`);
+    console.error(`Error starting MCP server: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the 'mcp' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerMcpCommand(program: Command): void {
+  program
+    .command("mcp")
+    .description(
+      "Serve the project's code index as MCP tools over stdio (find_symbol, get_symbol_doc, paths_to, related, list_exports)"
+    )
+    .argument("<path_to_project>", "Path to the project")
+    .option("-d, --debug", "Enable debug output (to stderr)")
+    .option(
+      "--docs <path>",
+      `Path to the docs directory (default: ${INDEXER_DIR} of every workspace)`
+    )
+    .action(processMcp);
+}
@@ -8,10 +8,164 @@ import {
   TypeScript,
   Symbol as TSSymbol,
 } from "../indexer/typescript/TypeScript.js";
+import { ReferenceIndex } from "../indexer/typescript/references.js";
 import { INDEXER_DIR } from "./index.js";
 import { DocSymbol, symbolToDoc, formatGitLink } from "../utils/docstore.js";
 import { Doc } from "askexperts/docstore";
 import { extractWorkspaces } from "../utils/workspace.js";
+import { getGitRemoteOrigin } from "../utils/git.js";
+import { IgnoreMatcher } from "../utils/gitignore.js";
+import { createGlobMatcher, isGlob } from "../utils/glob.js";
+import {
+  SymbolFilter,
+  SymbolFilterOptions,
+  addSymbolFilterOptions,
+} from "../utils/symbolFilter.js";
+import {
+  MarkdownSplitOptions,
+  MentionTarget,
+  TS_CODE_LANGS,
+  findMentionedSymbols,
+  splitMarkdownSections,
+} from "../utils/markdown.js";
+import { DEFAULT_SEARCH_INDEX, SearchIndex } from "../utils/searchIndex.js";
+
+type PrepareOptions = SymbolFilterOptions & {
+  debug?: boolean;
+  output?: string;
+  dir?: string;
+  always?: string[];
+  include?: string[];
+  docs?: string;
+  sectionMaxChars?: number;
+  sectionOverlap?: number;
+  /** Search index path, true for the default one */
+  index?: string | boolean;
+  /** False with --no-code, to omit full code of symbols */
+  code?: boolean;
+  /** False with --no-dir-summaries, to skip dir docs */
+  dirSummaries?: boolean;
+};
+
+const DEFAULT_SECTION_MAX_CHARS = 4000;
+const DEFAULT_SECTION_OVERLAP = 300;
+
+/**
+ * Splitting of included Markdown files into section docs
+ */
+type MarkdownSectionOptions = {
+  split: MarkdownSplitOptions;
+  /** Project symbols by name, to link code examples to */
+  targets: Map<string, MentionTarget[]>;
+};
+
+/**
+ * Destinations of the prepared docs
+ */
+type DocOutput = {
+  /** Combined text file */
+  filePath?: string;
+  /** Directory of per-doc JSON files */
+  dirPath?: string;
+  /** Local search index, saved after all docs are written */
+  index?: SearchIndex;
+};
+
+/**
+ * Write a doc to the configured outputs
+ * @param doc - Prepared doc
+ * @param output - Output destinations
+ */
+function writeDoc(doc: Doc, output: DocOutput) {
+  if (output.filePath) {
+    // Append the doc to the output file
+    fs.appendFileSync(
+      output.filePath,
+      "=========================\n" +
+        doc.metadata +
+        (doc.include ? "\ninclude: always" : "") +
+        "\n" +
+        doc.data +
+        "\n\n"
+    );
+  }
+
+  if (output.dirPath) {
+    // Write each doc to a separate file using hash of doc.id for filename
+    const fileNameHash = createHash("sha256").update(doc.id).digest("hex");
+    const docFilePath = path.join(output.dirPath, `${fileNameHash}.aedoc`);
+    fs.writeFileSync(docFilePath, JSON.stringify(doc, null, 2));
+  }
+
+  output.index?.add(doc);
+}
+
+// TypeScript analyzers of the workspaces, shared by the included files and symbols passes
+const workspaceProjects = new Map<
+  string,
+  { typescript: TypeScript; rootSymbols: TSSymbol[] }
+>();
+
+/**
+ * Get the (cached) TypeScript analyzer and root symbols of a workspace
+ * @param workspacePath - Absolute path to the workspace
+ */
+function getWorkspaceProject(workspacePath: string) {
+  let project = workspaceProjects.get(workspacePath);
+  if (!project) {
+    const typescript = new TypeScript(workspacePath);
+    debugCli(`Getting all symbols from TypeScript analysis...`);
+    const rootSymbols = typescript.listRootSymbols();
+    debugCli(
+      `Found ${rootSymbols.length} root symbols from TypeScript analysis`
+    );
+    project = { typescript, rootSymbols };
+    workspaceProjects.set(workspacePath, project);
+  }
+  return project;
+}
+
+/**
+ * Check if a workspace has TypeScript sources to prepare
+ */
+function hasTypeScriptConfig(workspacePath: string): boolean {
+  return (
+    fs.existsSync(path.join(workspacePath, "tsconfig.json")) ||
+    fs.existsSync(path.join(workspacePath, "deno.json"))
+  );
+}
+
+/**
+ * Index exported symbols of the workspaces (and their members) by name,
+ * to link Markdown code examples to the symbols they mention
+ * @param workspacePaths - Absolute paths of the workspaces
+ * @param filter - Only symbols selected by the filter are linked
+ * @returns Symbols by name
+ */
+function buildMentionTargets(
+  workspacePaths: string[],
+  filter: SymbolFilter
+): Map<string, MentionTarget[]> {
+  const targets = new Map<string, MentionTarget[]>();
+  const add = (symbol: TSSymbol, parentHash?: string) => {
+    if (filter.matches(symbol)) {
+      const list = targets.get(symbol.id.name) || [];
+      list.push({ name: symbol.id.name, hash: symbol.id.hash, parentHash });
+      targets.set(symbol.id.name, list);
+    }
+  };
+
+  for (const workspacePath of workspacePaths) {
+    if (!hasTypeScriptConfig(workspacePath)) continue;
+    const { rootSymbols } = getWorkspaceProject(workspacePath);
+    for (const root of rootSymbols) {
+      if (!root.isExported && !root.id.exportHints?.length) continue;
+      add(root);
+      for (const child of root.children || []) add(child, root.id.hash);
+    }
+  }
+  return targets;
+}
 
 /**
  * Read a file and validate it's UTF-8 encoded
@@ -53,25 +207,6 @@ function getCurrentCommitHash(projectPath: string): string | undefined {
   }
 }
 
-/**
- * Get the git remote origin URL
- * @param projectPath - Path to the project root
- * @returns Git remote origin URL or undefined if not available
- */
-function getGitRemoteOrigin(projectPath: string): string | undefined {
-  try {
-    const result = execSync("git remote get-url origin", {
-      cwd: projectPath,
-      encoding: "utf8",
-      stdio: ["ignore", "pipe", "ignore"],
-    });
-    return result.trim();
-  } catch (error) {
-    debugError(`Failed to get git remote origin: ${(error as Error).message}`);
-    return undefined;
-  }
-}
-
 /**
  * Create a Doc object for an included file
  * @param filePath - Relative path to the file from project root
@@ -132,71 +267,182 @@ function createIncludedDoc(
 }
 
 /**
- * Expand file masks (like "*.md") to actual file paths
+ * Check if an included file is Markdown and should be split into sections
+ */
+function isMarkdownFile(filePath: string): boolean {
+  return /\.(md|markdown)$/i.test(filePath);
+}
+
+/**
+ * Create Doc objects for the sections of an included Markdown file,
+ * sections are linked to the symbols mentioned by their code examples
+ * @param filePath - Relative path to the file from project root
+ * @param content - File content
+ * @param markdown - Section size limits and symbols to link
+ * @param always - Whether to mark as 'include: always'
+ * @param commitHash - Optional commit hash
+ * @param workspaceRelativePath - Optional workspace relative path for monorepos
+ * @param gitOrigin - Optional git remote origin URL
+ * @returns Doc objects in file order
+ */
+function createMarkdownSectionDocs(
+  filePath: string,
+  content: string,
+  markdown: MarkdownSectionOptions,
+  always?: boolean,
+  commitHash?: string,
+  workspaceRelativePath?: string,
+  gitOrigin?: string
+): Doc[] {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const fileId = workspaceRelativePath
+    ? `${workspaceRelativePath}:${filePath}`
+    : filePath;
+
+  return splitMarkdownSections(content, markdown.split).map((section) => {
+    // Headings without slug chars get no anchor, use the line instead
+    const anchor = section.anchor || undefined;
+    let id = fileId;
+    if (section.headingPath.length)
+      id += `#${anchor || `L${section.startLine}`}`;
+    if (section.parts > 1) id += `~${section.part}`;
+
+    let metadata = "type: markdown_section\n";
+    if (workspaceRelativePath) {
+      metadata += `workspace: ${workspaceRelativePath}\n`;
+    }
+    metadata += `file: ${filePath}`;
+    if (section.headingPath.length) {
+      metadata += `\nheading: ${section.headingPath.join(" > ")}`;
+    }
+    metadata += `\nlines: ${section.startLine}:${section.endLine}`;
+    if (section.parts > 1) {
+      metadata += `\npart: ${section.part}/${section.parts}`;
+    }
+    if (commitHash) {
+      metadata += `\ncommit: ${commitHash}`;
+    }
+    if (gitOrigin && commitHash) {
+      // Line links don't work for rendered Markdown, link the file if there's no anchor
+      const gitLink = formatGitLink(
+        gitOrigin,
+        commitHash,
+        filePath,
+        undefined,
+        anchor
+      );
+      metadata += `\nlink: ${gitLink}`;
+    }
+
+    const relatedIds = new Set<string>();
+    for (const block of section.codeBlocks) {
+      if (!TS_CODE_LANGS.has(block.lang)) continue;
+      for (const hash of findMentionedSymbols(block.code, markdown.targets))
+        relatedIds.add(hash);
+    }
+
+    const doc: Doc = {
+      id,
+      docstore_id: "", // This will be set when the document is added to a docstore
+      timestamp,
+      created_at: timestamp,
+      type: "markdown_section",
+      data: section.text,
+      metadata,
+      embeddings: [],
+      related_ids: [...relatedIds],
+    };
+
+    if (always) {
+      doc.include = "always";
+    }
+
+    return doc;
+  });
+}
+
+/**
+ * Expand file paths and glob masks (like "*.md" or "docs/**\/*.{md,txt}")
+ * to actual file paths. Masks starting with "!" exclude files matched by
+ * the preceding entries, ignored files are never matched by masks.
+ *
  * @param basePath - Base path to search from
- * @param pattern - File pattern (can be exact path or mask like "*.md")
- * @returns Array of matching file paths relative to basePath
+ * @param patterns - Exact paths and masks, relative to basePath
+ * @param ignore - Matcher of ignored files
+ * @returns Array of matching file paths relative to basePath, in pattern order
  */
-function expandFileMask(basePath: string, pattern: string): string[] {
-  // If pattern doesn't contain wildcards, treat as exact path
-  if (!pattern.includes("*") && !pattern.includes("?")) {
-    return [pattern];
-  }
+function expandFileMasks(
+  basePath: string,
+  patterns: string[],
+  ignore: IgnoreMatcher
+): string[] {
+  // Scan the tree only if there are masks
+  const files: string[] = [];
+  if (patterns.some((p) => isGlob(p) && !p.startsWith("!"))) {
+    const scanDirectory = (dirPath: string, relativePath: string = "") => {
+      const items = fs
+        .readdirSync(dirPath, { withFileTypes: true })
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const item of items) {
+        const itemPath = path.join(dirPath, item.name);
+        const itemRelativePath = relativePath
+          ? `${relativePath}/${item.name}`
+          : item.name;
 
-  const results: string[] = [];
+        if (ignore.isIgnored(itemPath, item.isDirectory())) continue;
 
-  try {
-    // Simple glob implementation for basic patterns like "*.md"
-    if (pattern.startsWith("*.")) {
-      const extension = pattern.slice(1); // Remove the '*'
-      const scanDirectory = (dirPath: string, relativePath: string = "") => {
-        const items = fs.readdirSync(dirPath, { withFileTypes: true });
-
-        for (const item of items) {
-          const itemPath = path.join(dirPath, item.name);
-          const itemRelativePath = relativePath
-            ? `${relativePath}/${item.name}`
-            : item.name;
-
-          if (item.isFile() && item.name.endsWith(extension)) {
-            results.push(itemRelativePath);
-          } else if (
-            item.isDirectory() &&
-            !shouldIgnoreFile(itemRelativePath, [])
-          ) {
-            // Recursively scan subdirectories, but skip ignored ones
-            scanDirectory(itemPath, itemRelativePath);
-          }
+        if (item.isFile()) {
+          files.push(itemRelativePath);
+        } else if (item.isDirectory()) {
+          scanDirectory(itemPath, itemRelativePath);
         }
-      };
+      }
+    };
 
+    try {
       scanDirectory(basePath);
-    } else {
-      // For more complex patterns, we could add more sophisticated glob matching
-      // For now, just treat as exact path
-      results.push(pattern);
+    } catch (error) {
+      debugError(
+        `Error scanning ${basePath} for file masks: ${(error as Error).message}`
+      );
     }
-  } catch (error) {
-    debugError(
-      `Error expanding file mask "${pattern}": ${(error as Error).message}`
-    );
   }
 
-  return results;
+  const results: string[] = [];
+  for (let i = 0; i < patterns.length; i++) {
+    const pattern = patterns[i];
+    if (pattern.startsWith("!")) continue;
+
+    // Exclusions that follow the pattern apply to it
+    const matcher = createGlobMatcher([
+      pattern,
+      ...patterns.slice(i + 1).filter((p) => p.startsWith("!")),
+    ]);
+    if (!isGlob(pattern)) {
+      // Exact path, reported later if it doesn't exist
+      const normalized = pattern.split(path.sep).join("/");
+      if (matcher(normalized)) results.push(normalized);
+    } else {
+      results.push(...files.filter(matcher));
+    }
+  }
+  return [...new Set(results)];
 }
 
 /**
  * Handle included files (both always and include) for a given path (root or workspace)
  * @param basePath - Base path to resolve files from (root or workspace path)
  * @param rootProjectPath - Root project path for resolving --always and --include options
- * @param alwaysOptions - Array of --always paths provided by user (relative to root)
- * @param includeOptions - Array of --include paths provided by user (relative to root)
+ * @param alwaysOptions - Array of --always paths (relative to root) and masks (relative to basePath) provided by user
+ * @param includeOptions - Array of --include paths (relative to root) and masks (relative to basePath) provided by user
  * @param useDefaults - Whether to include default files
  * @param commitHash - Optional commit hash
- * @param outputFilePath - Optional output file path
- * @param outputDirPath - Optional output directory path
+ * @param output - Output destinations
  * @param workspaceRelativePath - Optional workspace relative path for monorepos
  * @param gitOrigin - Optional git remote origin URL
+ * @param emitted - Absolute paths of files emitted by previous passes, updated with the new ones
+ * @param markdown - Options to split Markdown files into section docs, whole-file docs if not set
  * @returns Number of processed files
  */
 async function handleIncludedFiles(
@@ -205,24 +451,28 @@ async function handleIncludedFiles(
   alwaysOptions: string[],
   includeOptions: string[],
   useDefaults: boolean,
-  commitHash?: string,
-  outputFilePath?: string,
-  outputDirPath?: string,
+  commitHash: string | undefined,
+  output: DocOutput,
   workspaceRelativePath?: string,
-  gitOrigin?: string
+  gitOrigin?: string,
+  emitted: Set<string> = new Set(),
+  markdown?: MarkdownSectionOptions
 ): Promise<number> {
   let processedCount = 0;
 
+  // Masks are evaluated relative to basePath,
+  // exact paths are converted from root-relative to basePath-relative
+  const toBasePath = (p: string) =>
+    isGlob(p)
+      ? p
+      : path.relative(basePath, path.resolve(rootProjectPath, p));
+
   // Determine which files to process for --always
   let alwaysFilesToProcess: string[] = [];
 
   if (alwaysOptions.length > 0) {
-    // User provided --always options, use them (they are relative to root)
-    alwaysFilesToProcess = alwaysOptions.map((alwaysPath) => {
-      // Convert root-relative path to basePath-relative path
-      const absoluteAlwaysPath = path.resolve(rootProjectPath, alwaysPath);
-      return path.relative(basePath, absoluteAlwaysPath);
-    });
+    // User provided --always options, use them
+    alwaysFilesToProcess = alwaysOptions.map(toBasePath);
   } else if (useDefaults) {
     // Use default always files - changed from "*.md" to "README.md"
     alwaysFilesToProcess = [
@@ -237,29 +487,25 @@ async function handleIncludedFiles(
   let includeFilesToProcess: string[] = [];
 
   if (includeOptions.length > 0) {
-    // User provided --include options, use them (they are relative to root)
-    includeFilesToProcess = includeOptions.map((includePath) => {
-      // Convert root-relative path to basePath-relative path
-      const absoluteIncludePath = path.resolve(rootProjectPath, includePath);
-      return path.relative(basePath, absoluteIncludePath);
-    });
+    // User provided --include options, use them
+    includeFilesToProcess = includeOptions.map(toBasePath);
   } else if (useDefaults) {
     // Use default include files - "*.md"
     includeFilesToProcess = ["*.md"];
   }
 
   // Expand any file masks in both lists
-  const expandedAlwaysFiles: string[] = [];
-  for (const filePattern of alwaysFilesToProcess) {
-    const expandedPaths = expandFileMask(basePath, filePattern);
-    expandedAlwaysFiles.push(...expandedPaths);
-  }
-
-  const expandedIncludeFiles: string[] = [];
-  for (const filePattern of includeFilesToProcess) {
-    const expandedPaths = expandFileMask(basePath, filePattern);
-    expandedIncludeFiles.push(...expandedPaths);
-  }
+  const ignore = new IgnoreMatcher(basePath);
+  const expandedAlwaysFiles = expandFileMasks(
+    basePath,
+    alwaysFilesToProcess,
+    ignore
+  );
+  const expandedIncludeFiles = expandFileMasks(
+    basePath,
+    includeFilesToProcess,
+    ignore
+  );
 
   // Create sets of files for various checks
   const alwaysFilesSet = new Set(expandedAlwaysFiles);
@@ -291,6 +537,13 @@ async function handleIncludedFiles(
         continue;
       }
 
+      // Root and workspace passes may match the same file
+      if (emitted.has(fullPath)) {
+        debugCli(`Skipping already included file: ${relativePath}`);
+        continue;
+      }
+      emitted.add(fullPath);
+
       const isAlwaysFile = alwaysFilesSet.has(relativePath);
       debugCli(
         `Processing ${
@@ -302,34 +555,31 @@ async function handleIncludedFiles(
 
       // Always use path relative to project root for metadata
       const metadataPath = path.relative(rootProjectPath, fullPath);
-      const doc = createIncludedDoc(
-        metadataPath,
-        content,
-        isAlwaysFile,
-        commitHash,
-        workspaceRelativePath,
-        gitOrigin
-      );
-
-      if (outputFilePath) {
-        // Append the line to the output file
-        fs.appendFileSync(
-          outputFilePath,
-          "=========================\n" +
-            doc.metadata +
-            (doc.include ? "\ninclude: always" : "") +
-            "\n" +
-            doc.data +
-            "\n\n"
-        );
-      }
+      const docs =
+        markdown && isMarkdownFile(metadataPath)
+          ? createMarkdownSectionDocs(
+              metadataPath,
+              content,
+              markdown,
+              isAlwaysFile,
+              commitHash,
+              workspaceRelativePath,
+              gitOrigin
+            )
+          : [
+              createIncludedDoc(
+                metadataPath,
+                content,
+                isAlwaysFile,
+                commitHash,
+                workspaceRelativePath,
+                gitOrigin
+              ),
+            ];
 
-      if (outputDirPath) {
-        // Write each doc to a separate file using hash of doc.id for filename
-        const fileNameHash = createHash("sha256").update(doc.id).digest("hex");
-        const docFilePath = path.join(outputDirPath, `${fileNameHash}.aedoc`);
-        fs.writeFileSync(docFilePath, JSON.stringify(doc, null, 2));
-      }
+      for (const doc of docs) writeDoc(doc, output);
+      if (docs.length > 1)
+        debugCli(`Split ${relativePath} into ${docs.length} section docs`);
 
       processedCount++;
     } catch (error) {
@@ -345,69 +595,10 @@ async function handleIncludedFiles(
   return processedCount;
 }
 
-/**
- * Parse .gitignore file and return patterns
- * @param gitignorePath - Path to .gitignore file
- * @returns Array of gitignore patterns
- */
-function parseGitignore(gitignorePath: string): string[] {
-  if (!fs.existsSync(gitignorePath)) {
-    return [];
-  }
-
-  const content = fs.readFileSync(gitignorePath, "utf8");
-  return content
-    .split("\n")
-    .map((line) => line.trim())
-    .filter((line) => line && !line.startsWith("#"));
-}
-
-/**
- * Check if a file path should be ignored based on gitignore patterns
- * @param filePath - Relative file path from project root
- * @param patterns - Array of gitignore patterns
- * @returns True if file should be ignored
- */
-function shouldIgnoreFile(filePath: string, patterns: string[]): boolean {
-  // Always ignore these directories
-  const alwaysIgnore = ["node_modules", ".askexperts", ".git"];
-
-  for (const ignore of alwaysIgnore) {
-    if (filePath.includes(ignore)) {
-      return true;
-    }
-  }
-
-  // Check gitignore patterns
-  for (const pattern of patterns) {
-    // Simple pattern matching - handle basic cases
-    if (pattern.endsWith("/")) {
-      // Directory pattern
-      const dirPattern = pattern.slice(0, -1);
-      if (filePath.startsWith(dirPattern + "/") || filePath === dirPattern) {
-        return true;
-      }
-    } else if (pattern.includes("*")) {
-      // Wildcard pattern - basic implementation
-      const regex = new RegExp(pattern.replace(/\*/g, ".*"));
-      if (regex.test(filePath)) {
-        return true;
-      }
-    } else {
-      // Exact match
-      if (filePath === pattern || filePath.startsWith(pattern + "/")) {
-        return true;
-      }
-    }
-  }
-
-  return false;
-}
-
 /**
  * Generate a file tree string with |- formatting
  * @param dirPath - Directory path to scan
- * @param gitignorePatterns - Array of gitignore patterns
+ * @param ignore - Matcher of ignored files
  * @param prefix - Current prefix for tree formatting
  * @param isLast - Whether this is the last item in current level
  * @param relativePath - Relative path from project root
@@ -415,7 +606,7 @@ function shouldIgnoreFile(filePath: string, patterns: string[]): boolean {
  */
 function generateFileTree(
   dirPath: string,
-  gitignorePatterns: string[],
+  ignore: IgnoreMatcher,
   prefix: string = "",
   isLast: boolean = true,
   relativePath: string = ""
@@ -425,12 +616,10 @@ function generateFileTree(
   try {
     const items = fs
       .readdirSync(dirPath, { withFileTypes: true })
-      .filter((item) => {
-        const itemRelativePath = relativePath
-          ? `${relativePath}/${item.name}`
-          : item.name;
-        return !shouldIgnoreFile(itemRelativePath, gitignorePatterns);
-      })
+      .filter(
+        (item) =>
+          !ignore.isIgnored(path.join(dirPath, item.name), item.isDirectory())
+      )
       .sort((a, b) => {
         // Directories first, then files, both alphabetically
         if (a.isDirectory() && !b.isDirectory()) return -1;
@@ -452,7 +641,7 @@ function generateFileTree(
         const itemPath = path.join(dirPath, item.name);
         result += generateFileTree(
           itemPath,
-          gitignorePatterns,
+          ignore,
           newPrefix,
           isLastItem,
           itemRelativePath
@@ -484,14 +673,10 @@ function createProjectFilesDoc(
 ): Doc {
   const timestamp = Math.floor(Date.now() / 1000);
 
-  // Parse gitignore
-  const gitignorePath = path.join(packagePath, ".gitignore");
-  const gitignorePatterns = parseGitignore(gitignorePath);
-
   // Generate file tree
   const projectName = path.basename(packagePath);
   let fileTree = `${projectName}/\n`;
-  fileTree += generateFileTree(packagePath, gitignorePatterns);
+  fileTree += generateFileTree(packagePath, new IgnoreMatcher(packagePath));
 
   // Create document ID with workspace prefix for monorepos
   const baseId = `project_files`;
@@ -537,14 +722,7 @@ function createProjectFilesDoc(
  */
 async function processDocs(
   packagePath: string,
-  options: {
-    debug?: boolean;
-    output?: string;
-    dir?: string;
-    always?: string[];
-    include?: string[];
-    docs?: string;
-  }
+  options: PrepareOptions
 ): Promise<void> {
   // Enable debug output if debug flag is set
   if (options.debug) {
@@ -567,9 +745,17 @@ async function processDocs(
       process.exit(1);
     }
 
-    // Check if either output or dir option is provided
-    if (!options.output && !options.dir) {
-      debugError("Either --output or --dir option must be specified");
+    // Check if either output, dir or index option is provided
+    if (!options.output && !options.dir && !options.index) {
+      debugError("Either --output, --dir or --index option must be specified");
+      process.exit(1);
+    }
+
+    let filter: SymbolFilter;
+    try {
+      filter = new SymbolFilter(options);
+    } catch (error) {
+      console.log((error as Error).message);
       process.exit(1);
     }
 
@@ -588,6 +774,12 @@ async function processDocs(
       fs.mkdirSync(outputDirPath, { recursive: true });
     }
 
+    const output: DocOutput = {
+      filePath: outputFilePath,
+      dirPath: outputDirPath,
+      index: options.index ? new SearchIndex() : undefined,
+    };
+
     // Get current commit hash from git
     const currentCommitHash = getCurrentCommitHash(absolutePath);
     if (!currentCommitHash) {
@@ -606,8 +798,34 @@ async function processDocs(
       debugCli("No git remote origin found");
     }
 
+    // Check if this is a monorepo with workspaces
+    const workspaces = extractWorkspaces(absolutePath);
+    const workspacePaths = workspaces.length
+      ? workspaces.map((w) => w.path)
+      : [absolutePath];
+
+    // Included Markdown is split into sections linked to the symbols of all workspaces
+    const markdown: MarkdownSectionOptions = {
+      split: {
+        maxChars: options.sectionMaxChars ?? DEFAULT_SECTION_MAX_CHARS,
+        overlap: options.sectionOverlap ?? DEFAULT_SECTION_OVERLAP,
+      },
+      targets: buildMentionTargets(workspacePaths, filter),
+    };
+    if (
+      !(markdown.split.maxChars > 0) ||
+      !(markdown.split.overlap >= 0) ||
+      markdown.split.overlap >= markdown.split.maxChars
+    ) {
+      console.log(
+        "--section-max-chars must be positive and greater than --section-overlap"
+      );
+      process.exit(1);
+    }
+
     // Handle included files (both always and include) for the root project first
     debugCli(`Processing included files for project root`);
+    const emitted = new Set<string>();
     const rootIncludedCount = await handleIncludedFiles(
       absolutePath,
       absolutePath,
@@ -615,10 +833,11 @@ async function processDocs(
       options.include || [],
       true, // use defaults for root
       currentCommitHash, // use current commit hash
-      outputFilePath,
-      outputDirPath,
+      output,
       undefined, // no workspace path for root
-      gitOrigin
+      gitOrigin,
+      emitted,
+      markdown
     );
     debugCli(`Processed ${rootIncludedCount} included files for project root`);
 
@@ -631,33 +850,10 @@ async function processDocs(
       gitOrigin
     );
 
-    if (outputFilePath) {
-      // Append the project files doc to the output file
-      fs.appendFileSync(
-        outputFilePath,
-        "=========================\n" +
-          projectFilesDoc.metadata +
-          (projectFilesDoc.include ? "\ninclude: always" : "") +
-          "\n" +
-          projectFilesDoc.data +
-          "\n\n"
-      );
-    }
-
-    if (outputDirPath) {
-      // Write the project files doc to a separate file using hash of doc.id for filename
-      const fileNameHash = createHash("sha256")
-        .update(projectFilesDoc.id)
-        .digest("hex");
-      const docFilePath = path.join(outputDirPath, `${fileNameHash}.aedoc`);
-      fs.writeFileSync(docFilePath, JSON.stringify(projectFilesDoc, null, 2));
-    }
+    writeDoc(projectFilesDoc, output);
 
     debugCli(`Created synthetic project files document for entire project`);
 
-    // Check if this is a monorepo with workspaces
-    const workspaces = extractWorkspaces(absolutePath);
-
     if (workspaces.length > 0) {
       debugCli(`Found ${workspaces.length} workspaces in monorepo`);
       // Process each workspace
@@ -666,11 +862,13 @@ async function processDocs(
         await processWorkspace(
           workspace.path,
           absolutePath,
-          outputFilePath,
-          outputDirPath,
+          output,
           options,
           currentCommitHash,
-          gitOrigin
+          gitOrigin,
+          filter,
+          emitted,
+          markdown
         );
       }
     } else {
@@ -679,11 +877,24 @@ async function processDocs(
       await processWorkspace(
         absolutePath,
         absolutePath,
-        outputFilePath,
-        outputDirPath,
+        output,
         options,
         currentCommitHash,
-        gitOrigin
+        gitOrigin,
+        filter,
+        emitted,
+        markdown
+      );
+    }
+
+    if (output.index) {
+      const indexPath = path.resolve(
+        process.cwd(),
+        typeof options.index === "string" ? options.index : DEFAULT_SEARCH_INDEX
+      );
+      output.index.save(indexPath);
+      console.log(
+        `Search index of ${output.index.size} docs written to ${indexPath}`
       );
     }
   } catch (error) {
@@ -698,27 +909,19 @@ async function processDocs(
 async function processWorkspace(
   workspacePath: string,
   rootProjectPath: string,
-  outputFilePath?: string,
-  outputDirPath?: string,
-  options?: {
-    debug?: boolean;
-    output?: string;
-    dir?: string;
-    always?: string[];
-    include?: string[];
-    docs?: string;
-  },
+  output: DocOutput,
+  options?: PrepareOptions,
   currentCommitHash?: string,
-  gitOrigin?: string
+  gitOrigin?: string,
+  filter?: SymbolFilter,
+  emitted?: Set<string>,
+  markdown?: MarkdownSectionOptions
 ): Promise<void> {
   const workspaceRelativePath = path.relative(rootProjectPath, workspacePath);
   const isMonorepo = workspaceRelativePath !== "";
 
   // Check if tsconfig.json or deno.json exists in the workspace
-  const tsconfigPath = path.join(workspacePath, "tsconfig.json");
-  const denoJsonPath = path.join(workspacePath, "deno.json");
-
-  if (!fs.existsSync(tsconfigPath) && !fs.existsSync(denoJsonPath)) {
+  if (!hasTypeScriptConfig(workspacePath)) {
     debugCli(
       `Skipping workspace ${workspacePath}: no tsconfig.json or deno.json found`
     );
@@ -766,32 +969,28 @@ async function processWorkspace(
 
   debugCli(`Looking for JSON files in: ${docsPath}`);
 
-  const typescript = new TypeScript(workspacePath);
-
-  // Handle included files only if --always and --include options weren't provided
-  // (if they were provided, they were already handled at the root level)
-  let includedProcessedCount = 0;
-  if (
-    (!options?.always || options.always.length === 0) &&
-    (!options?.include || options.include.length === 0)
-  ) {
-    debugCli(`Processing default included files for workspace`);
-    includedProcessedCount = await handleIncludedFiles(
-      workspacePath,
-      rootProjectPath,
-      [], // no --always options
-      [], // no --include options
-      true, // use defaults
-      currentCommitHash, // use current commit hash for consistency
-      outputFilePath,
-      outputDirPath,
-      isMonorepo ? workspaceRelativePath : undefined,
-      gitOrigin
-    );
-    debugCli(`Processed ${includedProcessedCount} included files`);
-  } else {
-    debugCli(`Skipping workspace included files (handled at root level)`);
-  }
+  const { typescript, rootSymbols } = getWorkspaceProject(workspacePath);
+
+  // Default included files, or --always/--include masks evaluated relative
+  // to the workspace (exact paths were already handled at the root level),
+  // files already emitted by the root pass are skipped
+  const alwaysOptions = options?.always || [];
+  const includeOptions = options?.include || [];
+  debugCli(`Processing included files for workspace`);
+  const includedProcessedCount = await handleIncludedFiles(
+    workspacePath,
+    rootProjectPath,
+    alwaysOptions.filter(isGlob),
+    includeOptions.filter(isGlob),
+    !alwaysOptions.length && !includeOptions.length, // use defaults
+    currentCommitHash, // use current commit hash for consistency
+    output,
+    isMonorepo ? workspaceRelativePath : undefined,
+    gitOrigin,
+    emitted,
+    markdown
+  );
+  debugCli(`Processed ${includedProcessedCount} included files`);
 
   // Note: project_files doc is now created at project root level, not per workspace
 
@@ -836,17 +1035,15 @@ async function processWorkspace(
   let foundSymbols = 0;
   let missingSymbols = 0;
 
-  // Get all symbols from TypeScript analysis
-  debugCli(`Getting all symbols from TypeScript analysis...`);
-  const rootSymbols = typescript.listRootSymbols();
-  debugCli(`Found ${rootSymbols.length} root symbols from TypeScript analysis`);
-
   // Flatten the symbol tree to get all symbols (including children)
   const allSymbols = flattenSymbolTree(rootSymbols);
   debugCli(
     `Flattened to ${allSymbols.length} total symbols (including children)`
   );
 
+  // Callers, callees and implementations of the symbols
+  const references = new ReferenceIndex(typescript, allSymbols);
+
   // Create a map of all available DocSymbols from JSON files for quick lookup
   const docSymbolMap = new Map<
     string,
@@ -903,12 +1100,18 @@ async function processWorkspace(
   debugCli(`Found ${docSymbolMap.size} symbols in JSON files`);
 
   // Process each symbol from TypeScript analysis
-  for (const symbol of allSymbols) {
+  const selectedSymbols =
+    filter && !filter.isEmpty()
+      ? allSymbols.filter((s) => filter.matches(s))
+      : allSymbols;
+  if (selectedSymbols.length !== allSymbols.length)
+    debugCli(`${selectedSymbols.length} symbols selected by filters`);
+  for (const symbol of selectedSymbols) {
     processedSymbols++;
 
     if (processedSymbols % 100 === 0) {
       debugCli(
-        `Processed ${processedSymbols}/${allSymbols.length} symbols so far...`
+        `Processed ${processedSymbols}/${selectedSymbols.length} symbols so far...`
       );
     }
 
@@ -934,27 +1137,12 @@ async function processWorkspace(
         typescript,
         docsCommitHash, // use docs commit hash for symbol docs (they were generated from that commit)
         isMonorepo ? workspaceRelativePath : undefined,
-        gitOrigin
+        gitOrigin,
+        references,
+        options?.code !== false
       );
 
-      if (outputFilePath) {
-        // Append the line to the output file
-        fs.appendFileSync(
-          outputFilePath,
-          "=========================\n" +
-            doc.metadata +
-            "\n" +
-            doc.data +
-            "\n\n"
-        );
-      }
-
-      if (outputDirPath) {
-        // Write each doc to a separate file using hash of doc.id for filename
-        const fileNameHash = createHash("sha256").update(doc.id).digest("hex");
-        const docFilePath = path.join(outputDirPath, `${fileNameHash}.aedoc`);
-        fs.writeFileSync(docFilePath, JSON.stringify(doc, null, 2));
-      }
+      writeDoc(doc, output);
     } catch (error) {
       debugError(
         `Error processing symbol ${symbolInfo.id.name}: ${
@@ -968,11 +1156,12 @@ async function processWorkspace(
   debugCli(`Processing file and directory documentation...`);
   const fileDirProcessedCount = await processFileAndDirDocs(
     docsPath,
-    outputFilePath,
-    outputDirPath,
+    output,
     docsCommitHash || currentCommitHash,
     isMonorepo ? workspaceRelativePath : undefined,
-    gitOrigin
+    gitOrigin,
+    filter,
+    options?.dirSummaries !== false
   );
 
   debugCli(`Workspace preparation complete.`);
@@ -982,15 +1171,17 @@ async function processWorkspace(
 }
 
 /**
- * Process file and directory documentation entries
+ * Process file and directory documentation entries,
+ * file docs are skipped if the filter excludes their files
  */
 async function processFileAndDirDocs(
   docsPath: string,
-  outputFilePath?: string,
-  outputDirPath?: string,
+  output: DocOutput,
   commitHash?: string,
   workspaceRelativePath?: string,
-  gitOrigin?: string
+  gitOrigin?: string,
+  filter?: SymbolFilter,
+  includeDirs: boolean = true
 ): Promise<number> {
   let processedCount = 0;
 
@@ -1019,6 +1210,14 @@ async function processFileAndDirDocs(
               details?: string;
             };
 
+            if (
+              docEntry.type === "file" &&
+              filter &&
+              !filter.matchesFile(docEntry.path || "")
+            )
+              continue;
+            if (docEntry.type === "dir" && !includeDirs) continue;
+
             // Process file and dir entries
             if (docEntry.type === "file" || docEntry.type === "dir") {
               const doc = createFileOrDirDoc(
@@ -1028,29 +1227,7 @@ async function processFileAndDirDocs(
                 gitOrigin
               );
 
-              if (outputFilePath) {
-                // Append the doc to the output file
-                fs.appendFileSync(
-                  outputFilePath,
-                  "=========================\n" +
-                    doc.metadata +
-                    "\n" +
-                    doc.data +
-                    "\n\n"
-                );
-              }
-
-              if (outputDirPath) {
-                // Write each doc to a separate file using hash of doc.id for filename
-                const fileNameHash = createHash("sha256")
-                  .update(doc.id)
-                  .digest("hex");
-                const docFilePath = path.join(
-                  outputDirPath,
-                  `${fileNameHash}.aedoc`
-                );
-                fs.writeFileSync(docFilePath, JSON.stringify(doc, null, 2));
-              }
+              writeDoc(doc, output);
 
               processedCount++;
               debugCli(`Processed ${docEntry.type} doc: ${docEntry.path}`);
@@ -1144,7 +1321,7 @@ function createFileOrDirDoc(
  * @param program - Commander instance to register the command to
  */
 export function registerPrepareCommand(program: Command): void {
-  program
+  const command = program
     .command("prepare")
     .description(
       `Convert generated docs from '${INDEXER_DIR}' subdir to docstore format`
@@ -1181,5 +1358,21 @@ export function registerPrepareCommand(program: Command): void {
       "--docs <path>",
       "Path to the docs directory (relative to current working directory). If not specified, uses <package_path>/.askexperts"
     )
-    .action(processDocs);
+    .option(
+      "--section-max-chars <number>",
+      `Max size of a Markdown section doc, longer sections are split into chunks (default: ${DEFAULT_SECTION_MAX_CHARS})`,
+      (value) => parseInt(value, 10)
+    )
+    .option(
+      "--section-overlap <number>",
+      `Chars of the previous chunk repeated at the start of the next chunk of a long section (default: ${DEFAULT_SECTION_OVERLAP})`,
+      (value) => parseInt(value, 10)
+    )
+    .option("--no-code", "Omit the full code of symbols from symbol docs")
+    .option("--no-dir-summaries", "Skip directory summary docs")
+    .option(
+      "--index [file]",
+      `Also build a local BM25 search index of the docs for the 'search' command (default: ${DEFAULT_SEARCH_INDEX})`
+    );
+  addSymbolFilterOptions(command).action(processDocs);
 }
@@ -0,0 +1,115 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import {
+  debugCli,
+  enableDebugAll,
+  outputStructured,
+} from "../utils/debug.js";
+import {
+  DEFAULT_SEARCH_INDEX,
+  SearchIndex,
+  SearchResult,
+} from "../utils/searchIndex.js";
+
+type SearchCommandOptions = {
+  debug?: boolean;
+  index?: string;
+  limit?: number;
+  type?: string;
+  json?: boolean;
+};
+
+/**
+ * Print a human-readable list of search results
+ *
+ * @param results - Search results, best first
+ */
+function printResults(results: SearchResult[]) {
+  results.forEach((r, i) => {
+    const location = r.metadata.file || r.metadata.path;
+    const lines = r.metadata.lines ? `:${r.metadata.lines}` : "";
+    console.log(`${i + 1}. ${r.id} (${r.type}, score ${r.score.toFixed(2)})`);
+    if (location) console.log(`   ${location}${lines}`);
+    if (r.metadata.heading) console.log(`   ${r.metadata.heading}`);
+    if (r.snippet) console.log(`   ${r.snippet}`);
+  });
+}
+
+/**
+ * Search the local index built by 'prepare --index'
+ *
+ * @param query - Search query
+ * @param options - Command options
+ */
+async function processSearch(
+  query: string,
+  options: SearchCommandOptions
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  const indexPath = path.resolve(
+    process.cwd(),
+    options.index || DEFAULT_SEARCH_INDEX
+  );
+  if (!fs.existsSync(indexPath)) {
+    console.log(
+      `Search index not found at ${indexPath}, build it with 'prepare --index'`
+    );
+    process.exit(1);
+  }
+
+  try {
+    const index = SearchIndex.load(indexPath);
+    debugCli(`Loaded search index of ${index.size} docs from ${indexPath}`);
+
+    const results = index.search(query, {
+      limit: options.limit,
+      type: options.type,
+    });
+
+    if (options.json) {
+      outputStructured(results);
+    } else if (!results.length) {
+      console.log("No matching docs");
+    } else {
+      printResults(results);
+    }
+  } catch (error) {
+    console.log(`Error searching: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the 'search' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerSearchCommand(program: Command): void {
+  program
+    .command("search")
+    .description(
+      "Search the docs prepared with 'prepare --index' to check what retrieval will return"
+    )
+    .argument("<query>", "Search query, identifiers are split by camelCase and snake_case")
+    .option("-d, --debug", "Enable debug output")
+    .option(
+      "-i, --index <file>",
+      `Path to the search index (default: ${DEFAULT_SEARCH_INDEX})`
+    )
+    .option(
+      "-l, --limit <number>",
+      "Max number of results",
+      (value) => parseInt(value, 10),
+      10
+    )
+    .option(
+      "-t, --type <type>",
+      "Only return docs of this type, e.g. typescript_symbol_doc or markdown_section"
+    )
+    .option("--json", "Output machine-readable JSON")
+    .action(processSearch);
+}
@@ -0,0 +1,235 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import os from "os";
+import {
+  debugCli,
+  debugError,
+  enableDebugAll,
+  outputStructured,
+} from "../utils/debug.js";
+import { TypeScript } from "../indexer/typescript/TypeScript.js";
+import { extractWorkspaces } from "../utils/workspace.js";
+import {
+  addWorktree,
+  getRepoRoot,
+  removeWorktree,
+  resolveCommit,
+} from "../utils/git.js";
+import {
+  SEMVER_LEVELS,
+  SemverChange,
+  SemverLevel,
+  bumpVersion,
+  classifyChanges,
+  maxLevel,
+  versionBump,
+} from "../utils/semver.js";
+
+type SemverOptions = {
+  debug?: boolean;
+  json?: boolean;
+  check?: boolean;
+};
+
+type PackageSemver = {
+  name: string;
+  workspace: string;
+  fromVersion?: string;
+  toVersion?: string;
+  /** Bump required by the changes */
+  bump: SemverLevel;
+  /** fromVersion with the bump applied */
+  suggestedVersion?: string;
+  /** Bump between fromVersion and toVersion, if they are x.y.z */
+  actualBump?: SemverLevel;
+  changes: SemverChange[];
+};
+
+/**
+ * Relative paths of the workspaces of a project, "." for single packages
+ */
+function listWorkspaces(projectPath: string): string[] {
+  const workspaces = extractWorkspaces(projectPath);
+  if (!workspaces.length) return ["."];
+  return workspaces.map((w) => path.relative(projectPath, w.path) || ".");
+}
+
+function hasTsConfig(workspacePath: string) {
+  return (
+    fs.existsSync(path.join(workspacePath, "tsconfig.json")) ||
+    fs.existsSync(path.join(workspacePath, "deno.json"))
+  );
+}
+
+/**
+ * Let the analyzer resolve dependencies in a worktree through the
+ * node_modules of the working copy
+ */
+function linkNodeModules(fromDir: string, toDir: string) {
+  const source = path.join(fromDir, "node_modules");
+  const target = path.join(toDir, "node_modules");
+  if (fs.existsSync(source) && fs.existsSync(toDir) && !fs.existsSync(target))
+    fs.symlinkSync(source, target, "dir");
+}
+
+/**
+ * Classify the changes of public symbols between two commits and suggest a version bump
+ *
+ * @param fromRef - Older git ref
+ * @param toRef - Newer git ref
+ * @param projectPath - Path to the project
+ * @param options - Command options
+ */
+async function processSemver(
+  fromRef: string,
+  toRef: string,
+  projectPath: string | undefined,
+  options: SemverOptions
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  let tmpDir: string | undefined;
+  const worktrees: string[] = [];
+  let repoRoot = "";
+  let failed = false;
+  try {
+    const absolutePath = path.resolve(process.cwd(), projectPath || ".");
+    if (!fs.existsSync(absolutePath)) {
+      debugError(`Project directory not found at path: ${absolutePath}`);
+      process.exit(1);
+    }
+
+    repoRoot = getRepoRoot(absolutePath);
+    const projectRel = path.relative(repoRoot, absolutePath);
+    const fromCommit = resolveCommit(absolutePath, fromRef);
+    const toCommit = resolveCommit(absolutePath, toRef);
+
+    // Check out both versions side by side
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "askexperts-semver-"));
+    const trees: Record<"from" | "to", string> = { from: "", to: "" };
+    for (const [side, commit] of [
+      ["from", fromCommit],
+      ["to", toCommit],
+    ] as const) {
+      const worktree = path.join(tmpDir, side);
+      addWorktree(absolutePath, commit, worktree);
+      worktrees.push(worktree);
+      debugCli(`Checked out ${commit} to ${worktree}`);
+
+      trees[side] = path.join(worktree, projectRel);
+      linkNodeModules(repoRoot, worktree);
+      linkNodeModules(absolutePath, trees[side]);
+    }
+
+    const fromWorkspaces = listWorkspaces(trees.from);
+    const toWorkspaces = listWorkspaces(trees.to);
+
+    const result: PackageSemver[] = [];
+    for (const workspace of toWorkspaces) {
+      const fromPath = path.join(trees.from, workspace);
+      const toPath = path.join(trees.to, workspace);
+      if (!hasTsConfig(toPath)) {
+        debugCli(`Skipping workspace ${workspace}: no tsconfig.json or deno.json`);
+        continue;
+      }
+      if (!fromWorkspaces.includes(workspace) || !hasTsConfig(fromPath)) {
+        console.log(`Workspace ${workspace} is new in ${toRef}, skipping`);
+        continue;
+      }
+
+      const fromProject = new TypeScript(fromPath);
+      const toProject = new TypeScript(toPath);
+      const changes = classifyChanges(fromProject, fromPath, toProject, toPath);
+
+      const fromVersion = fromProject.getPackageJson()?.version;
+      const toVersion = toProject.getPackageJson()?.version;
+      const bump = maxLevel(changes);
+      result.push({
+        name: toProject.getPackageJson()?.name || "<package>",
+        workspace,
+        fromVersion,
+        toVersion,
+        bump,
+        suggestedVersion: bumpVersion(fromVersion, bump),
+        actualBump: versionBump(fromVersion, toVersion),
+        changes,
+      });
+    }
+    for (const workspace of fromWorkspaces) {
+      if (!toWorkspaces.includes(workspace))
+        console.log(`Workspace ${workspace} was removed in ${toRef}`);
+    }
+
+    if (options.json) {
+      outputStructured(result);
+    } else {
+      for (const pkg of result) {
+        console.log(
+          `Package ${pkg.name}${
+            pkg.workspace !== "." ? ` (${pkg.workspace})` : ""
+          }: ${pkg.bump === "none" ? "no public API changes" : `${pkg.bump} bump`}${
+            pkg.suggestedVersion && pkg.bump !== "none"
+              ? `, ${pkg.fromVersion} -> ${pkg.suggestedVersion}`
+              : ""
+          }`
+        );
+        for (const c of pkg.changes)
+          console.log(
+            `  ${c.level.padEnd(5)} ${c.file} ${c.symbol} (${c.kind}): ${c.reason}`
+          );
+      }
+    }
+
+    if (options.check) {
+      for (const pkg of result) {
+        if (
+          pkg.actualBump !== undefined &&
+          SEMVER_LEVELS.indexOf(pkg.actualBump) >= SEMVER_LEVELS.indexOf(pkg.bump)
+        )
+          continue;
+        // The version in toRef doesn't cover the changes
+        const required = bumpVersion(pkg.fromVersion, pkg.bump);
+        console.log(
+          `Version check failed for ${pkg.name}: version ${pkg.toVersion} doesn't cover the ${pkg.bump} changes since ${pkg.fromVersion}${
+            required ? `, expected at least ${required}` : ""
+          }`
+        );
+        failed = true;
+      }
+    }
+  } catch (error) {
+    debugError(`Error classifying changes: ${(error as Error).message}`);
+    failed = true;
+  } finally {
+    for (const worktree of worktrees) removeWorktree(repoRoot, worktree);
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+
+  if (failed) process.exit(1);
+}
+
+/**
+ * Register the 'semver' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerSemverCommand(program: Command): void {
+  program
+    .command("semver")
+    .description(
+      "Classify public API changes between two commits as patch/minor/major and suggest a version bump"
+    )
+    .argument("<from_ref>", "Older git ref, e.g. the last release tag")
+    .argument("<to_ref>", "Newer git ref, e.g. HEAD")
+    .argument("[path_to_project]", "Path to the project (default: current dir)")
+    .option("-d, --debug", "Enable debug output")
+    .option("--json", "Output machine-readable JSON")
+    .option(
+      "--check",
+      "Exit with an error if the version at <to_ref> is lower than the suggested one"
+    )
+    .action(processSemver);
+}
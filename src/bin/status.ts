@@ -0,0 +1,164 @@
+import { Command } from "commander";
+import path from "path";
+import fs from "fs";
+import { INDEXER_DIR } from "./index.js";
+import {
+  debugCli,
+  debugError,
+  enableDebugAll,
+  outputStructured,
+} from "../utils/debug.js";
+import { TypeScript } from "../indexer/typescript/TypeScript.js";
+import { extractWorkspaces } from "../utils/workspace.js";
+import {
+  DOC_STATUSES,
+  DocStatus,
+  SymbolDocStatus,
+  flattenSymbols,
+  getDocStatus,
+} from "../utils/docStatus.js";
+
+type StatusOptions = {
+  debug?: boolean;
+  dir?: string;
+  json?: boolean;
+  all?: boolean;
+};
+
+type WorkspaceStatus = {
+  workspace: string;
+  counts: Record<DocStatus, number>;
+  symbols: SymbolDocStatus[];
+};
+
+/**
+ * Compute the docs status of a single workspace
+ *
+ * @param workspacePath - Path to the workspace
+ * @param rootProjectPath - Path to the root project (for relative paths)
+ * @param options - Command options
+ * @returns Workspace status, or undefined if the workspace has no TS config
+ */
+function getWorkspaceStatus(
+  workspacePath: string,
+  rootProjectPath: string,
+  options: StatusOptions
+): WorkspaceStatus | undefined {
+  const tsconfigPath = path.join(workspacePath, "tsconfig.json");
+  const denoJsonPath = path.join(workspacePath, "deno.json");
+  if (!fs.existsSync(tsconfigPath) && !fs.existsSync(denoJsonPath)) {
+    debugCli(
+      `Skipping workspace ${workspacePath}: no tsconfig.json or deno.json found`
+    );
+    return;
+  }
+
+  const docsPath = options.dir
+    ? path.resolve(process.cwd(), options.dir)
+    : path.join(workspacePath, INDEXER_DIR);
+
+  const project = new TypeScript(workspacePath);
+  const symbols = flattenSymbols(project.listRootSymbols());
+  debugCli(`Workspace ${workspacePath} has ${symbols.length} symbols`);
+
+  const statuses = getDocStatus(workspacePath, docsPath, symbols);
+  const counts = Object.fromEntries(
+    DOC_STATUSES.map((s) => [s, 0])
+  ) as Record<DocStatus, number>;
+  for (const s of statuses) counts[s.status]++;
+
+  const workspacePrefix = path.relative(rootProjectPath, workspacePath);
+  return {
+    workspace: workspacePrefix || ".",
+    counts,
+    symbols: statuses,
+  };
+}
+
+/**
+ * Print a human-readable report of the workspace status
+ *
+ * @param status - Workspace status
+ * @param all - Also list up-to-date symbols
+ */
+function printWorkspaceStatus(status: WorkspaceStatus, all?: boolean) {
+  const workspacePrefix =
+    status.workspace === "." ? "" : status.workspace + "/";
+  console.log(`Workspace: ${status.workspace}`);
+  for (const s of status.symbols) {
+    if (!all && s.status === "up-to-date") continue;
+    console.log(
+      `  ${s.status.padEnd(17)} ${workspacePrefix}${s.file}:${s.start} ${
+        s.name
+      } (${s.kind})`
+    );
+  }
+  console.log(
+    `  ${DOC_STATUSES.map((s) => `${s}: ${status.counts[s]}`).join(", ")}`
+  );
+}
+
+/**
+ * Report whether the docs in INDEXER_DIR match the current code
+ *
+ * @param projectPath - Path to the project
+ * @param options - Command options
+ */
+async function processStatus(
+  projectPath: string,
+  options: StatusOptions
+): Promise<void> {
+  if (options.debug) {
+    enableDebugAll();
+  }
+
+  try {
+    const absolutePath = path.resolve(process.cwd(), projectPath);
+    if (!fs.existsSync(absolutePath)) {
+      debugError(`Project directory not found at path: ${absolutePath}`);
+      process.exit(1);
+    }
+
+    const workspaces = extractWorkspaces(absolutePath);
+    const workspacePaths = workspaces.length
+      ? workspaces.map((w) => w.path)
+      : [absolutePath];
+
+    const result: WorkspaceStatus[] = [];
+    for (const workspacePath of workspacePaths) {
+      const status = getWorkspaceStatus(workspacePath, absolutePath, options);
+      if (status) result.push(status);
+    }
+
+    if (options.json) {
+      outputStructured(result);
+    } else {
+      for (const status of result) printWorkspaceStatus(status, options.all);
+    }
+  } catch (error) {
+    debugError(`Error checking docs status: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the 'status' command to the provided commander instance
+ *
+ * @param program - Commander instance to register the command to
+ */
+export function registerStatusCommand(program: Command): void {
+  program
+    .command("status")
+    .description(
+      `Compare symbols against the docs in '${INDEXER_DIR}' and report stale docs`
+    )
+    .argument("<path_to_project>", "Path to the project")
+    .option("-d, --debug", "Enable debug output")
+    .option(
+      "--dir <string>",
+      `Directory with generated docs (default: ${INDEXER_DIR})`
+    )
+    .option("--json", "Output machine-readable JSON")
+    .option("-a, --all", "Also list up-to-date symbols")
+    .action(processStatus);
+}
@@ -3,25 +3,39 @@ import { debugError } from "askexperts/common";
 import { enableDebugAll, debugTypescript } from "../utils/debug.js";
 import { Symbol, TypeScript } from "../indexer/typescript/TypeScript.js";
 import { extractWorkspaces } from "../utils/workspace.js";
+import {
+  SymbolFilter,
+  SymbolFilterOptions,
+  addSymbolFilterOptions,
+} from "../utils/symbolFilter.js";
 import path from "path";
 import fs from "fs";
 
-export function listAllSymbols(projectPath: string, showHash?: boolean) {
+export function listAllSymbols(
+  projectPath: string,
+  showHash?: boolean,
+  filter?: SymbolFilter
+) {
   // Check if this is a monorepo with workspaces
   const workspaces = extractWorkspaces(projectPath);
   
   if (workspaces.length > 0) {
     // Process each workspace
     for (const workspace of workspaces) {
-      listAllSymbolsForWorkspace(workspace.path, projectPath, showHash);
+      listAllSymbolsForWorkspace(workspace.path, projectPath, showHash, filter);
     }
   } else {
     // Process as a single package
-    listAllSymbolsForWorkspace(projectPath, projectPath, showHash);
+    listAllSymbolsForWorkspace(projectPath, projectPath, showHash, filter);
   }
 }
 
-function listAllSymbolsForWorkspace(workspacePath: string, rootProjectPath: string, showHash?: boolean) {
+function listAllSymbolsForWorkspace(
+  workspacePath: string,
+  rootProjectPath: string,
+  showHash?: boolean,
+  filter?: SymbolFilter
+) {
   // Check if tsconfig.json or deno.json exists in this workspace
   const tsconfigPath = path.join(workspacePath, 'tsconfig.json');
   const denoJsonPath = path.join(workspacePath, 'deno.json');
@@ -50,6 +64,12 @@ function listAllSymbolsForWorkspace(workspacePath: string, rootProjectPath: stri
       return;
     }
     printedSymbols.add(symbolKey);
+
+    // Children of filtered out symbols may still match
+    if (filter && !filter.matches(s)) {
+      for (const c of s.children || []) print(c, offset + 2);
+      return;
+    }
     
     // For overloaded functions, we need to resolve back to the specific declaration
     // that was used to create this symbol, not just use s.self
@@ -79,15 +99,27 @@ function listAllSymbolsForWorkspace(workspacePath: string, rootProjectPath: stri
 
 async function processSymbols(
   tsConfigPath: string,
-  options: { debug?: boolean; ts_config_path?: string, hash?: boolean }
+  options: SymbolFilterOptions & {
+    debug?: boolean;
+    ts_config_path?: string;
+    hash?: boolean;
+  }
 ): Promise<void> {
   // Enable debug output if debug flag is set
   if (options.debug) {
     enableDebugAll();
   }
 
+  let filter: SymbolFilter;
+  try {
+    filter = new SymbolFilter(options);
+  } catch (error) {
+    console.log((error as Error).message);
+    process.exit(1);
+  }
+
   try {
-    listAllSymbols(tsConfigPath, options.hash);
+    listAllSymbols(tsConfigPath, options.hash, filter);
   } catch (error) {
     debugError(`Error processing project: ${(error as Error).message}`);
     if (options.debug) {
@@ -103,11 +135,11 @@ async function processSymbols(
  * @param program - Commander instance to register the command to
  */
 export function registerSymbolsCommand(program: Command): void {
-  program
+  const command = program
     .command("symbols")
     .description("Process a TypeScript package and print all symbols")
     .argument("<package_path>", "Path to the package")
     .option("-d, --debug", "Enable debug output")
-    .option("--hash", "Show symbol id hashes")
-    .action(processSymbols);
+    .option("--hash", "Show symbol id hashes");
+  addSymbolFilterOptions(command).action(processSymbols);
 }
@@ -0,0 +1,56 @@
+import { LightningPaymentManager } from "askexperts/mcp";
+import { OpenaiAskExperts } from "askexperts/openai";
+import { SimplePool } from "nostr-tools";
+import { ChatCompletion, ChatCompletionCreateParams } from "openai/resources";
+import { DocGenerator, DocQuote, DocReply } from "./DocGenerator.js";
+
+/**
+ * DocGenerator that pays askexperts experts over Lightning using NWC
+ */
+export class AskExpertsGenerator implements DocGenerator {
+  private client: OpenaiAskExperts;
+  private pool: SimplePool;
+  private paymentManager: LightningPaymentManager;
+  private ownedPool: boolean;
+
+  constructor(options: { nwc: string; pool?: SimplePool }) {
+    // Create LightningPaymentManager
+    this.paymentManager = new LightningPaymentManager(options.nwc);
+
+    // Track if we're creating our own pool or using a provided one
+    this.ownedPool = !options.pool;
+    this.pool = options.pool || new SimplePool();
+
+    // Create OpenAI instance
+    this.client = new OpenaiAskExperts(this.paymentManager, {
+      pool: this.pool,
+    });
+  }
+
+  public async getQuote(
+    model: string,
+    request: ChatCompletionCreateParams
+  ): Promise<DocQuote> {
+    const quote = await this.client.getQuote(model, { ...request, model });
+    return { id: quote.quoteId, model, amountSats: quote.amountSats };
+  }
+
+  public async execute(quote: DocQuote): Promise<DocReply> {
+    const reply = (await this.client.execute(quote.id)) as ChatCompletion;
+    return {
+      content: reply.choices[0].message.content || "",
+      model: reply.model || quote.model,
+      usage: reply.usage,
+    };
+  }
+
+  [Symbol.dispose]() {
+    this.client[Symbol.dispose]();
+    this.paymentManager[Symbol.dispose]();
+
+    // Destroy the pool if we created it internally
+    if (this.ownedPool && this.pool) {
+      this.pool.destroy();
+    }
+  }
+}
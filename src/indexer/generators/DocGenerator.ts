@@ -0,0 +1,55 @@
+import { ChatCompletionCreateParams } from "openai/resources";
+
+/**
+ * Price quote for a single doc generation request
+ */
+export interface DocQuote {
+  /** Backend-specific id used to execute the request */
+  id: string;
+  /** Model that will handle the request */
+  model: string;
+  /** Price in sats, 0 for backends that don't charge per request */
+  amountSats: number;
+}
+
+/**
+ * Raw reply of the model to a doc generation request
+ */
+export interface DocReply {
+  /** Model output, expected to be a JSON document */
+  content: string;
+  /** Model that produced the reply */
+  model: string;
+  /** Token usage reported by the backend, if any */
+  usage?: any;
+}
+
+/**
+ * LLM backend used by TypescriptIndexer to generate docs.
+ *
+ * Requests are two-phase so that the indexer could check the price
+ * before paying: getQuote first, then execute the quote.
+ */
+export interface DocGenerator {
+  /**
+   * Get a price quote for the request
+   *
+   * @param model - Model to use
+   * @param request - Chat completion request
+   * @returns The quote
+   */
+  getQuote(
+    model: string,
+    request: ChatCompletionCreateParams
+  ): Promise<DocQuote>;
+
+  /**
+   * Execute the quoted request
+   *
+   * @param quote - Quote returned by getQuote
+   * @returns The model reply
+   */
+  execute(quote: DocQuote): Promise<DocReply>;
+
+  [Symbol.dispose](): void;
+}
@@ -0,0 +1,56 @@
+import OpenAI from "openai";
+import {
+  ChatCompletionCreateParams,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources";
+import { DocGenerator, DocQuote, DocReply } from "./DocGenerator.js";
+
+/**
+ * DocGenerator for any OpenAI-compatible chat completions endpoint
+ * (OpenAI, OpenRouter, local llama.cpp/ollama servers, etc).
+ *
+ * Such endpoints don't charge per request, so quotes are always 0 sats
+ * and only serve to pass the request to execute.
+ */
+export class OpenaiGenerator implements DocGenerator {
+  private client: OpenAI;
+  private requests = new Map<string, ChatCompletionCreateParams>();
+  private nextId = 0;
+
+  constructor(options: { baseURL?: string; apiKey?: string }) {
+    this.client = new OpenAI({
+      baseURL: options.baseURL,
+      // Local servers usually don't check the key, but the client requires one
+      apiKey: options.apiKey || process.env.OPENAI_API_KEY || "none",
+    });
+  }
+
+  public async getQuote(
+    model: string,
+    request: ChatCompletionCreateParams
+  ): Promise<DocQuote> {
+    const id = String(++this.nextId);
+    this.requests.set(id, { ...request, model });
+    return { id, model, amountSats: 0 };
+  }
+
+  public async execute(quote: DocQuote): Promise<DocReply> {
+    const request = this.requests.get(quote.id);
+    if (!request) throw new Error(`Unknown quote ${quote.id}`);
+    this.requests.delete(quote.id);
+
+    const reply = await this.client.chat.completions.create({
+      ...(request as ChatCompletionCreateParamsNonStreaming),
+      stream: false,
+    });
+    return {
+      content: reply.choices[0]?.message.content || "",
+      model: reply.model || quote.model,
+      usage: reply.usage,
+    };
+  }
+
+  [Symbol.dispose]() {
+    this.requests.clear();
+  }
+}
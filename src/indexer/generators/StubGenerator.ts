@@ -0,0 +1,79 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+import { ChatCompletionCreateParams } from "openai/resources";
+import { DocGenerator, DocQuote, DocReply } from "./DocGenerator.js";
+
+export const STUB_MODEL = "stub";
+
+function hashMessages(request: ChatCompletionCreateParams): string {
+  return bytesToHex(sha256(JSON.stringify(request.messages))).slice(0, 16);
+}
+
+/**
+ * Offline DocGenerator that returns deterministic placeholder docs
+ * without calling any model, for testing the pipeline end-to-end.
+ *
+ * The same request always produces the same reply, quotes of identical
+ * concurrent requests still get distinct ids.
+ */
+export class StubGenerator implements DocGenerator {
+  private requests = new Map<string, ChatCompletionCreateParams>();
+  private nextId = 0;
+
+  public async getQuote(
+    model: string,
+    request: ChatCompletionCreateParams
+  ): Promise<DocQuote> {
+    const id = `${hashMessages(request)}-${++this.nextId}`;
+    this.requests.set(id, request);
+    return { id, model, amountSats: 0 };
+  }
+
+  public async execute(quote: DocQuote): Promise<DocReply> {
+    const request = this.requests.get(quote.id);
+    if (!request) throw new Error(`Unknown quote ${quote.id}`);
+    this.requests.delete(quote.id);
+
+    // The first text part of the user message names the file/dir,
+    // the last one lists symbols for batched requests
+    const user = request.messages.find((m) => m.role === "user");
+    const texts: string[] = [];
+    if (typeof user?.content === "string") {
+      texts.push(user.content.split("\n")[0]);
+    } else if (Array.isArray(user?.content)) {
+      for (const part of user.content)
+        if (part.type === "text") texts.push(part.text);
+    }
+    const subject = texts[0] || "";
+    const hash = hashMessages(request);
+
+    const doc = (about: string) => ({
+      summary: `Stub summary for ${about} (${hash})`,
+      details: `Stub details for ${about} (${hash})`,
+    });
+
+    let batch: any[] | undefined;
+    try {
+      const symbols = JSON.parse(texts[texts.length - 1]);
+      if (Array.isArray(symbols)) batch = symbols;
+    } catch (e) {
+      // Not a batched request
+    }
+
+    return {
+      content: JSON.stringify(
+        batch
+          ? batch.map((s) => ({
+              hash: s.id?.hash,
+              ...doc(`${subject} ${s.id?.name}`),
+            }))
+          : doc(subject)
+      ),
+      model: STUB_MODEL,
+    };
+  }
+
+  [Symbol.dispose]() {
+    this.requests.clear();
+  }
+}
@@ -20,7 +20,11 @@
  *   project-relative path, kind/name, container chain, normalized header hash, and overload index,
  *   plus optional export hints to assist future resolution.
  * - Emits correct import statements for each FoundExport (named, default, namespace, export=),
- *   trimming /index and respecting project root vs src/rootDir heuristics.
+ *   using the public subpath per package.json exports/typesVersions (wildcards and
+ *   types/import/require conditions), else trimming /index and respecting
+ *   project root vs src/rootDir heuristics.
+ * - Marks roots not reachable through package.json exports as internal, ranking
+ *   demotes them and pathsToRanked drops them when a public path exists.
  * - Ranks paths (rankPaths) so canonical, human-friendly access paths are preferred:
  *   favors entrypoints/barrels, preferred names (default, OpenAI), class roots for values,
  *   and penalizes deep folders, private-like steps, and internal hops (e.g. _client).
@@ -43,6 +47,7 @@
  *   - Includes the container type (class/interface) for member declarations.
  * - listAllSymbols:
  *   - Skips locals using shouldSkipAsLocal while allowing type/interface/class members.
+ *   - Skips files ignored by .gitignore/.askexpertsignore (IgnoreMatcher).
  *   - Includes constructors explicitly and members of type-literal aliases.
  *   - Also enumerates object-literal members inside exported consts.
  * - Stable IDs:
@@ -88,6 +93,7 @@ import {
   findVariableDecl,
   getDeclarationHeader,
   hasExportModifier,
+  hashBody,
   isClassLike,
   isPrivateOrLocalSymbol,
   isStaticMember,
@@ -99,6 +105,12 @@ import {
   shouldSkipAsLocal,
 } from "./utils.js";
 import { denoConfigToTsConfig } from "./deno2tsconfig.js";
+import {
+  PackageExports,
+  dropModuleExt,
+  listEntrypointTargets,
+} from "./packageExports.js";
+import { IgnoreMatcher } from "../../utils/gitignore.js";
 
 export type FoundExport = {
   exportName: string;
@@ -108,6 +120,10 @@ export type FoundExport = {
   declarationFile: string;
   reexportedFrom?: string;
   symbol: ts.Symbol;
+  /** Public subpath of moduleFile per package.json exports, "." for the package root */
+  subpath?: string;
+  /** moduleFile is not reachable through package.json exports */
+  isInternal?: boolean;
 };
 
 export type AccessStep =
@@ -146,18 +162,22 @@ export type Symbol = {
   jsDocTags?: { name: string; text?: string }[];
   declText: string; // the declaration text
   bodyText?: string; // function/method body, when present
+  bodyHash?: string; // hash of normalized declaration text incl. body, to detect stale docs
   children?: Symbol[]; // child nodes in the symbol hierarchy
   parent?: Symbol;
   paths?: AccessPath[];
 };
 
 export type RankOptions = {
-  /** absolute paths to files you consider primary entrypoints (e.g., index.ts) */
+  /** absolute paths to files you consider primary entrypoints (e.g., index.ts),
+   *  defaults to the entrypoints declared in package.json/deno.json */
   entrypoints?: string[];
   /** export names to boost (e.g., "default", "OpenAI") */
   preferredRootNames?: string[];
   /** If the target is type-only (e.g., export type ...), prefer barrels/entrypoints more. */
   targetIsType?: boolean;
+  /** Keep paths from roots not exposed by package.json exports (pathsToRanked) */
+  includeInternal?: boolean;
 };
 
 export type RankedPath = AccessPath & { score: number };
@@ -183,6 +203,8 @@ type RelatedItem = {
 export class TypeScript {
   private program: ts.Program;
   private packageJson: any;
+  private packageExports: PackageExports;
+  private entrypoints: string[];
   private checker: ts.TypeChecker;
   private projectDir: string;
   private options: ts.CompilerOptions;
@@ -304,9 +326,15 @@ export class TypeScript {
       path.resolve(f).startsWith(this.projectDir)
     );
     this.options = parsed.options;
+    this.packageExports = new PackageExports(
+      this.packageJson,
+      this.projectDir,
+      this.options
+    );
 
     this.program = ts.createProgram(rootNames, parsed.options);
     this.checker = this.program.getTypeChecker();
+    this.entrypoints = this.findEntrypoints();
 
     this.allRoots = this.list();
     this.valueRoots = this.allRoots.filter((e) => !e.isTypeOnly);
@@ -938,7 +966,7 @@ export class TypeScript {
    * Rank candidate access paths with human-centric heuristics.
    * Scoring:
    * - Bonuses:
-   *   - Entrypoints (index.ts, src/index.ts, or provided entrypoints) → strong bonus.
+   *   - Entrypoints (provided, or declared in package.json, else index.ts/src/index.ts) → strong bonus.
    *   - Preferred root names ("default", "OpenAI" by default) → moderate bonus.
    *   - Default export → bonus.
    *   - Class export roots → slight bonus for values.
@@ -949,11 +977,12 @@ export class TypeScript {
    *   - Internal `_client` hops → client penalty.
    *   - Deep folders (beyond package root) → depth penalty (stronger if target is a type).
    *   - Namespace roots for types get a tiny penalty compared to named/entry exports.
+   *   - Roots not exposed by package.json exports → strong internal penalty.
    * Sorts by descending score, then by shorter pretty string.
    */
   private rankPaths(paths: AccessPath[], opts?: RankOptions): RankedPath[] {
     const entryset = new Set(
-      (opts?.entrypoints ?? []).map((f) => path.resolve(f))
+      (opts?.entrypoints ?? this.entrypoints).map((f) => path.resolve(f))
     );
     const preferred = new Set(
       opts?.preferredRootNames ?? ["default", "OpenAI"]
@@ -971,8 +1000,11 @@ export class TypeScript {
       const depth = rel.split("/").length - 1; // folders deep
 
       const isEntrypoint =
-        entryset.has(path.resolve(p.root.moduleFile)) ||
-        looksLikeEntrypoint(rel);
+        !p.root.isInternal &&
+        (entryset.has(path.resolve(p.root.moduleFile)) ||
+          p.root.subpath === "." ||
+          // Filename heuristics only if the package declares no entrypoints
+          (!entryset.size && looksLikeEntrypoint(rel)));
 
       // Base bonuses
       const entrypointBaseBonus = isEntrypoint ? 50 : 0;
@@ -1002,6 +1034,8 @@ export class TypeScript {
       const privatePenalty = privateSteps * 6;
       const clientPenalty = hasClientHop ? 12 : 0;
       const depthPenalty = Math.max(0, depth - 1) * depthFactor;
+      // consumers can't import internal modules at all
+      const internalPenalty = p.root.isInternal ? 80 : 0;
 
       const score =
         100 +
@@ -1014,7 +1048,8 @@ export class TypeScript {
         privatePenalty -
         clientPenalty -
         depthPenalty -
-        typeNamespacePenalty;
+        typeNamespacePenalty -
+        internalPenalty;
 
       return { ...p, score };
     });
@@ -1033,12 +1068,44 @@ export class TypeScript {
     return this.resolveAlias(targetSym);
   }
 
-  /** Ranked variant: keep `pathsTo` as-is, or replace it with this behavior. */
+  /**
+   * Source files of the entrypoints declared in package.json/deno.json
+   * (main, module, types, bin, exports), build output paths are mapped
+   * back to sources through outDir/rootDir.
+   */
+  private findEntrypoints(): string[] {
+    const targets = new Set(
+      listEntrypointTargets(this.packageJson, this.projectDir, this.options)
+    );
+    if (!targets.size) return [];
+
+    const files: string[] = [];
+    for (const sf of this.program.getSourceFiles()) {
+      if (sf.isDeclarationFile) continue;
+      const full = path.resolve(sf.fileName);
+      if (!full.startsWith(this.projectDir)) continue;
+      if (targets.has(dropModuleExt(this.projectRel(full)))) files.push(full);
+    }
+    return files;
+  }
+
+  /** Absolute paths of the entrypoint source files per package.json/deno.json */
+  getEntrypoints(): string[] {
+    return this.entrypoints;
+  }
+
+  /**
+   * Ranked variant: keep `pathsTo` as-is, or replace it with this behavior.
+   * Paths from roots internal per package.json exports are dropped if the
+   * target is reachable through a public root, unless opts.includeInternal.
+   */
   pathsToRanked(
     target: ts.Symbol | ts.Declaration,
     opts?: RankOptions
   ): RankedPath[] {
-    const raw = this.pathsTo(target);
+    let raw = this.pathsTo(target);
+    if (!opts?.includeInternal && raw.some((p) => !p.root.isInternal))
+      raw = raw.filter((p) => !p.root.isInternal);
     const targetResolved = this.toResolvedSymbol(target);
     if (targetResolved)
       return this.rankPaths(raw, {
@@ -1143,6 +1210,8 @@ export class TypeScript {
    * - Returns the list of root symbols, with children tree under each root.
    */
   listRootSymbols() {
+    const ignore = new IgnoreMatcher(this.projectDir);
+
     // Create a symbol map to track parent-child relationships
     const symbolMap = new Map<ts.Node, Symbol>();
     const rootSymbols: Symbol[] = [];
@@ -1199,6 +1268,7 @@ export class TypeScript {
         jsDocTags,
         declText,
         // bodyText,
+        bodyHash: hashBody(decl, sf),
         children: [],
         // paths: this.pathsTo(decl),
       };
@@ -1271,6 +1341,9 @@ export class TypeScript {
       if (relativePath.startsWith("..") || path.isAbsolute(relativePath))
         continue;
 
+      // Skip generated/vendored files excluded by .gitignore/.askexpertsignore
+      if (ignore.isIgnored(sf.fileName, false)) continue;
+
       // Add cycle detection to prevent infinite recursion
       const visitedNodes = new Set<ts.Node>();
       
@@ -1483,6 +1556,7 @@ export class TypeScript {
 
         const reex = this.getReexportSpecifier(exp);
         results.push({
+          ...this.packageExports.resolve(this.projectRel(full)),
           exportName: expName,
           importKind: kind,
           moduleFile: full,
@@ -1508,6 +1582,7 @@ export class TypeScript {
             sf.fileName;
 
           results.push({
+            ...this.packageExports.resolve(this.projectRel(full)),
             exportName: "export=",
             importKind: "exportEquals",
             moduleFile: full,
@@ -2074,6 +2149,7 @@ export class TypeScript {
    * - default vs named vs namespace vs CommonJS export=
    * - trimming file extensions and /index suffixes
    * - respecting rootDir/src/packageRoot for module specifier construction
+   * - using the public subpath from package.json exports when there is one
    * When packageName is provided, emits package-based specifiers (e.g., "lib/foo").
    */
   makeImportStatement(exp: FoundExport, packageName?: string): string {
@@ -2331,6 +2407,10 @@ export class TypeScript {
   getProgram(): ts.Program {
     return this.program;
   }
+  /** Absolute path to the project root. */
+  getProjectDir(): string {
+    return this.projectDir;
+  }
   /** The parsed package.json at project root. */
   getPackageJson(): any {
     return this.packageJson;
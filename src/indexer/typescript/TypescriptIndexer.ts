@@ -1,11 +1,20 @@
-import { LightningPaymentManager } from "askexperts/mcp";
-import { SimplePool } from "nostr-tools";
 import { debugTypescript, debugError } from "../../utils/debug.js";
-import { OpenaiAskExperts } from "askexperts/openai";
-import { ChatCompletion, ChatCompletionCreateParams } from "openai/resources";
-
-const DEFAULT_MODEL = "anthropic/claude-3.7-sonnet";
-const DEFAULT_FALLBACK_MODEL = "openai/gpt-oss-120b";
+import { ChatCompletionCreateParams } from "openai/resources";
+import {
+  DocGenerator,
+  DocQuote,
+  DocReply,
+} from "../generators/DocGenerator.js";
+import { Budget, LedgerEntry, appendLedgerEntry } from "../../utils/ledger.js";
+import {
+  InvalidResponseError,
+  ResponseShape,
+  describeShape,
+  parseResponse,
+} from "./response.js";
+
+export const DEFAULT_MODEL = "anthropic/claude-3.7-sonnet";
+export const DEFAULT_FALLBACK_MODEL = "openai/gpt-oss-120b";
 const DEFAULT_MAX_AMOUNT = 100;
 const DEFAULT_PROMPT = `
 You are a TypeScript expert, your task is to create documentation for every symbol in a typescript project.
@@ -13,7 +22,9 @@ You are a TypeScript expert, your task is to create documentation for every symb
 User will provide:
 1. .ts file path within the project.
 2. The contents of the file, with line numbers prepended in "<lineNumber>|<codeLine>" format.
-3. Description of the symbol with name, declaration and start/end line:column numbers.
+3. Optionally, declarations of related symbols from other files (types used by the symbol etc.), with
+their summaries if they are already documented - use them to understand the symbol, but don't document them.
+4. Description of the symbol with name, declaration and start/end line:column numbers.
 
 You job is:
 1. Create a short documentation of the public "side" of the symbol - what it does, what params accepts, what is returned,
@@ -28,6 +39,32 @@ details contain numbered lists.
 If the provided input is invalid, return "ERROR: <reason>" string.
 `;
 
+const DEFAULT_BATCH_PROMPT = `
+You are a TypeScript expert, your task is to create documentation for every symbol in a typescript project.
+
+User will provide:
+1. .ts file path within the project.
+2. The contents of the file, with line numbers prepended in "<lineNumber>|<codeLine>" format.
+3. Optionally, declarations of related symbols from other files (types used by the symbols etc.), with
+their summaries if they are already documented - use them to understand the symbols, but don't document them.
+4. A JSON array of symbol descriptions, each with name, declaration, start/end line:column numbers and
+a unique "hash" in the "id" field.
+
+You job is, for every symbol in the array:
+1. Create a short documentation of the public "side" of the symbol - what it does, what params accepts, what is returned,
+what public side effects happen, etc.
+2. Create a short documentation of the implementation details of the symbol - what it does, how it works, what main
+components/modules/functions are used, anything that would help a coder get a rough vision of the implementation without
+reading the full source code. If the symbol is trivial, leave this doc entry empty.
+3. Return a JSON array with one document per symbol in this format (no markdown!):
+"[{ hash: <symbol_id_hash>, summary: <public_docs>, details: <implementation_docs> }, ...]"
+4. Copy the "hash" of each symbol exactly as provided, and don't skip any symbols.
+5. Make sure you return valid json with escaped line-breaks in "details" fields, especially important when your
+details contain numbered lists.
+
+If the provided input is invalid, return "ERROR: <reason>" string.
+`;
+
 const DEFAULT_FILE_PROMPT = `
 You are a TypeScript expert, your task is to create a summary documentation for a typescript file.
 
@@ -68,140 +105,272 @@ details contain numbered lists.
 If the provided input is invalid, return "ERROR: <reason>" string.
 `;
 
+/**
+ * What a request is generating docs for, recorded in the ledger
+ */
+export type RequestContext = Pick<
+  LedgerEntry,
+  "kind" | "path" | "hash" | "name" | "hashes"
+>;
+
+/**
+ * Message part with related declarations, none if there's no context
+ */
+function relatedContextParts(context?: string) {
+  if (!context) return [];
+  return [
+    {
+      type: "text" as const,
+      text: `Related declarations from other files:\n${context}`,
+    },
+  ];
+}
+
 /**
  * A class for analyzing TypeScript files and generating documentation
  */
 export class TypescriptIndexer {
-  private client: OpenaiAskExperts;
-  private pool: SimplePool;
-  private paymentManager: LightningPaymentManager;
-  private ownedPool: boolean;
-  private expertPubkey: string;
-  private fallbackExpertPubkey: string;
+  private generator: DocGenerator;
+  private model: string;
+  private fallbackModel: string;
   private systemPrompt: string;
+  private batchSystemPrompt: string;
   private fileSystemPrompt: string;
   private dirSystemPrompt: string;
   private maxAmount?: number;
+  private budget?: Budget;
+  private ledgerFile?: string;
 
   constructor(options: {
-    nwc: string;
+    generator: DocGenerator;
     systemPrompt?: string;
+    batchSystemPrompt?: string;
     fileSystemPrompt?: string;
     dirSystemPrompt?: string;
-    pool?: SimplePool;
     maxAmount?: number;
-    expertPubkey?: string;
-    fallbackExpertPubkey?: string;
+    model?: string;
+    fallbackModel?: string;
+    budget?: Budget;
+    ledgerFile?: string;
   }) {
+    this.generator = options.generator;
     this.systemPrompt = options.systemPrompt || DEFAULT_PROMPT;
+    this.batchSystemPrompt = options.batchSystemPrompt || DEFAULT_BATCH_PROMPT;
     this.fileSystemPrompt = options.fileSystemPrompt || DEFAULT_FILE_PROMPT;
     this.dirSystemPrompt = options.dirSystemPrompt || DEFAULT_DIR_PROMPT;
-    this.expertPubkey = options.expertPubkey || DEFAULT_MODEL;
-    this.fallbackExpertPubkey =
-      options.fallbackExpertPubkey || DEFAULT_FALLBACK_MODEL;
+    this.model = options.model || DEFAULT_MODEL;
+    this.fallbackModel = options.fallbackModel || DEFAULT_FALLBACK_MODEL;
     this.maxAmount = options.maxAmount || DEFAULT_MAX_AMOUNT;
+    this.budget = options.budget;
+    this.ledgerFile = options.ledgerFile;
+  }
+
+  public async start() {}
 
-    // Create LightningPaymentManager
-    this.paymentManager = new LightningPaymentManager(options.nwc);
+  /**
+   * Pay for the quote within the budget, execute it and record it in the ledger
+   *
+   * @param quote - Quote to execute
+   * @param context - What the request is generating docs for
+   * @param fallback - Whether the quote is for the fallback model
+   * @returns The model reply
+   */
+  private async executeQuote(
+    quote: DocQuote,
+    context: RequestContext,
+    fallback: boolean
+  ): Promise<DocReply> {
+    this.budget?.spend(quote.amountSats);
+
+    // Every spend gets a ledger entry, failed requests with their error
+    const record = (entry: Pick<LedgerEntry, "model" | "usage" | "error">) => {
+      if (!this.ledgerFile) return;
+      appendLedgerEntry(this.ledgerFile, {
+        time: new Date().toISOString(),
+        ...context,
+        quoteId: quote.id,
+        fallback,
+        amountSats: quote.amountSats,
+        ...entry,
+      });
+    };
 
-    // Track if we're creating our own pool or using a provided one
-    this.ownedPool = !options.pool;
-    this.pool = options.pool || new SimplePool();
+    let reply: DocReply;
+    try {
+      reply = await this.generator.execute(quote);
+    } catch (error) {
+      record({ model: quote.model, error: (error as Error).message });
+      throw error;
+    }
+    record({ model: reply.model, usage: reply.usage });
 
-    // Create OpenAI instance
-    this.client = new OpenaiAskExperts(this.paymentManager, {
-      pool: this.pool,
-    });
+    return reply;
   }
 
-  public async start() {}
-
   /**
-   * Send a request to the expert model with fallback support
+   * Get a quote for the model and execute it
    *
+   * @param model - Model to use
    * @param request - The chat completion request
-   * @returns The parsed JSON response
+   * @param context - What the request is generating docs for
+   * @param fallback - Whether the model is the fallback model
+   * @returns The model reply
    */
-  private async askExpert(request: ChatCompletionCreateParams): Promise<any> {
-    const quote = await this.client.getQuote(this.expertPubkey, request);
-
-    if (this.maxAmount && quote.amountSats > this.maxAmount) {
-      throw new Error(`Amount ${quote.amountSats} exceeds max`);
+  private async ask(
+    model: string,
+    request: ChatCompletionCreateParams,
+    context: RequestContext,
+    fallback: boolean
+  ): Promise<DocReply> {
+    const quote = await this.generator.getQuote(model, { ...request, model });
+
+    // The max amount is per symbol, batched requests document several
+    const maxAmount = this.maxAmount
+      ? this.maxAmount * (context.hashes?.length || 1)
+      : undefined;
+    if (maxAmount && quote.amountSats > maxAmount) {
+      throw new Error(
+        `${fallback ? "Fallback amount" : "Amount"} ${
+          quote.amountSats
+        } exceeds max ${maxAmount}`
+      );
     }
-    debugTypescript(`Quote for ${quote.amountSats} sats`);
+    debugTypescript(
+      `${fallback ? "Fallback quote" : "Quote"} for ${quote.amountSats} sats`
+    );
+
+    const reply = await this.executeQuote(quote, context, fallback);
+    debugTypescript(
+      fallback ? "Fallback response usage" : "Response usage",
+      JSON.stringify(reply.usage)
+    );
+    return reply;
+  }
 
-    const reply = (await this.client.execute(quote.quoteId)) as ChatCompletion;
-    debugTypescript("Response usage", JSON.stringify(reply.usage));
-    const result = reply.choices[0].message.content || "";
+  /**
+   * Send a request to the expert model with validation and fallback support.
+   *
+   * An invalid reply is sent back to the same model with a corrective
+   * message once, then the fallback model is tried. A model replying
+   * with "ERROR: <reason>" goes straight to the fallback model.
+   *
+   * @param request - The chat completion request
+   * @param context - What the request is generating docs for
+   * @param shape - Expected shape of the reply
+   * @returns The validated response
+   * @throws InvalidResponseError if no model returned a valid reply
+   */
+  private async askExpert(
+    request: ChatCompletionCreateParams,
+    context: RequestContext,
+    shape: ResponseShape
+  ): Promise<any> {
+    const reply = await this.ask(this.model, request, context, false);
 
+    let error: InvalidResponseError;
     try {
-      debugTypescript(`Parsing response '${result}'`);
-      return JSON.parse(result);
+      debugTypescript(`Parsing response '${reply.content}'`);
+      return parseResponse(reply.content, shape);
     } catch (e) {
-      debugError("Bad llm output json, trying fallback model");
+      if (!(e instanceof InvalidResponseError)) throw e;
+      error = e;
+    }
 
-      // Try fallback model
+    if (error.kind !== "error") {
+      debugError(`Bad llm output (${error.message}), asking to correct it`);
+      const correction: ChatCompletionCreateParams = {
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: "assistant", content: reply.content },
+          {
+            role: "user",
+            content: `Your reply is invalid: ${
+              error.message
+            }. Reply again with only a valid JSON document in this format (no markdown!): ${describeShape(
+              shape
+            )}`,
+          },
+        ],
+      };
+      const retryReply = await this.ask(
+        this.model,
+        correction,
+        context,
+        false
+      );
       try {
-        const fallbackQuote = await this.client.getQuote(
-          this.fallbackExpertPubkey,
-          { ...request, model: this.fallbackExpertPubkey }
-        );
-
-        if (this.maxAmount && fallbackQuote.amountSats > this.maxAmount) {
-          throw new Error(
-            `Fallback amount ${fallbackQuote.amountSats} exceeds max`
-          );
-        }
-        debugTypescript(`Fallback quote for ${fallbackQuote.amountSats} sats`);
-
-        const fallbackReply = (await this.client.execute(
-          fallbackQuote.quoteId
-        )) as ChatCompletion;
-        debugTypescript(
-          "Fallback response usage",
-          JSON.stringify(fallbackReply.usage)
-        );
-        const fallbackResult = fallbackReply.choices[0].message.content || "";
-
-        try {
-          debugTypescript(`Parsing fallback response '${fallbackResult}'`);
-          return JSON.parse(fallbackResult);
-        } catch (fallbackError) {
-          debugError("Fallback model also returned invalid JSON");
-          throw new Error(
-            "Both primary and fallback models returned invalid JSON"
-          );
-        }
-      } catch (fallbackError) {
-        debugError("Fallback model request failed", fallbackError);
-        throw fallbackError;
+        debugTypescript(`Parsing corrected response '${retryReply.content}'`);
+        return parseResponse(retryReply.content, shape);
+      } catch (e) {
+        if (!(e instanceof InvalidResponseError)) throw e;
+        error = e;
       }
     }
+
+    debugError(`Bad llm output (${error.message}), trying fallback model`);
+
+    // Try fallback model
+    let fallbackReply: DocReply;
+    try {
+      fallbackReply = await this.ask(
+        this.fallbackModel,
+        request,
+        context,
+        true
+      );
+    } catch (fallbackError) {
+      debugError("Fallback model request failed", fallbackError);
+      throw fallbackError;
+    }
+
+    try {
+      debugTypescript(`Parsing fallback response '${fallbackReply.content}'`);
+      return parseResponse(fallbackReply.content, shape);
+    } catch (e) {
+      if (!(e instanceof InvalidResponseError)) throw e;
+      debugError("Fallback model also returned invalid output");
+      throw new InvalidResponseError(
+        `Both primary and fallback models returned invalid output: ${e.message}`,
+        e.kind,
+        e.content
+      );
+    }
   }
 
   /**
-   * Process a TypeScript file code and extract documentation
+   * Get a price quote for a request without executing it
+   *
+   * @param request - The chat completion request
+   * @returns The quote for the primary model
+   */
+  public async quote(request: ChatCompletionCreateParams): Promise<DocQuote> {
+    return this.generator.getQuote(this.model, request);
+  }
+
+  /**
+   * Build the request that processSymbol sends to the model
    *
    * @param file - File path
    * @param code - Contents of the TypeScript file to process
    * @param symbol - Symbol to process
-   * @returns Documentation object
+   * @param context - Declarations of related symbols from other files
+   * @returns The chat completion request
    */
-  public async processSymbol(
+  public buildSymbolRequest(
     file: string,
     code: string,
-    symbol: any
-  ): Promise<any> {
-    debugTypescript(`Processing code of length: ${code.length}`);
-
+    symbol: any,
+    context?: string
+  ): ChatCompletionCreateParams {
     // Prepend line numbers to code string
     const codeLines = code
       .split("\n")
       .map((line, index) => `${index + 1}|${line}`)
       .join("\n");
 
-    const request: ChatCompletionCreateParams = {
-      model: this.expertPubkey,
+    return {
+      model: this.model,
       temperature: 0.1,
       messages: [
         {
@@ -225,6 +394,7 @@ export class TypescriptIndexer {
                 type: "ephemeral",
               },
             },
+            ...relatedContextParts(context),
             {
               type: "text",
               text: JSON.stringify(symbol),
@@ -233,28 +403,82 @@ export class TypescriptIndexer {
         },
       ],
     };
+  }
 
-    return this.askExpert(request);
+  /**
+   * Build the request that processSymbols sends to the model
+   *
+   * @param file - File path
+   * @param code - Contents of the TypeScript file to process
+   * @param symbols - Symbols of the file to process
+   * @param context - Declarations of related symbols from other files
+   * @returns The chat completion request
+   */
+  public buildSymbolsRequest(
+    file: string,
+    code: string,
+    symbols: any[],
+    context?: string
+  ): ChatCompletionCreateParams {
+    // Prepend line numbers to code string
+    const codeLines = code
+      .split("\n")
+      .map((line, index) => `${index + 1}|${line}`)
+      .join("\n");
+
+    return {
+      model: this.model,
+      temperature: 0.1,
+      messages: [
+        {
+          role: "system",
+          content: this.batchSystemPrompt,
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: `File: ${file}`,
+            },
+            {
+              type: "text",
+              text: codeLines,
+              // @ts-ignore
+              cache_control: {
+                type: "ephemeral",
+              },
+            },
+            ...relatedContextParts(context),
+            {
+              type: "text",
+              text: JSON.stringify(symbols),
+            },
+          ],
+        },
+      ],
+    };
   }
 
   /**
-   * Process a TypeScript file and generate file-level documentation
+   * Build the request that processFile sends to the model
    *
    * @param file - File path
    * @param code - Contents of the TypeScript file
-   * @returns Documentation object
+   * @returns The chat completion request
    */
-  public async processFile(file: string, code: string): Promise<any> {
-    debugTypescript(`Processing file: ${file}`);
-
+  public buildFileRequest(
+    file: string,
+    code: string
+  ): ChatCompletionCreateParams {
     // Prepend line numbers to code string
     const codeLines = code
       .split("\n")
       .map((line, index) => `${index + 1}|${line}`)
       .join("\n");
 
-    const request: ChatCompletionCreateParams = {
-      model: this.expertPubkey,
+    return {
+      model: this.model,
       temperature: 0.1,
       messages: [
         {
@@ -280,27 +504,23 @@ export class TypescriptIndexer {
         },
       ],
     };
-
-    return this.askExpert(request);
   }
 
   /**
-   * Process a directory and generate directory-level documentation
+   * Build the request that processDir sends to the model
    *
    * @param dir - Directory path
    * @param tree - Directory tree structure
    * @param fileSummaries - Summaries of files in the directory
-   * @returns Documentation object
+   * @returns The chat completion request
    */
-  public async processDir(
+  public buildDirRequest(
     dir: string,
     tree: string,
     fileSummaries: string
-  ): Promise<any> {
-    debugTypescript(`Processing directory: ${dir}`);
-
-    const request: ChatCompletionCreateParams = {
-      model: this.expertPubkey,
+  ): ChatCompletionCreateParams {
+    return {
+      model: this.model,
       temperature: 0.1,
       messages: [
         {
@@ -326,17 +546,136 @@ export class TypescriptIndexer {
         },
       ],
     };
+  }
 
-    return this.askExpert(request);
+  /**
+   * Process a TypeScript file code and extract documentation
+   *
+   * @param file - File path
+   * @param code - Contents of the TypeScript file to process
+   * @param symbol - Symbol to process
+   * @param context - Declarations of related symbols from other files
+   * @returns Documentation object
+   */
+  public async processSymbol(
+    file: string,
+    code: string,
+    symbol: any,
+    context?: string
+  ): Promise<any> {
+    debugTypescript(`Processing code of length: ${code.length}`);
+    return this.askExpert(
+      this.buildSymbolRequest(file, code, symbol, context),
+      {
+        kind: "symbol",
+        path: file,
+        hash: symbol?.id?.hash,
+        name: symbol?.id?.name,
+      },
+      "symbol"
+    );
   }
 
-  [Symbol.dispose]() {
-    this.client[Symbol.dispose]();
-    this.paymentManager[Symbol.dispose]();
+  /**
+   * Document several symbols of the same file with a single request.
+   *
+   * The model returns an array of docs keyed by symbol hash, symbols
+   * missing from the reply are re-requested individually. Symbols that
+   * couldn't be documented get an InvalidResponseError instead of docs.
+   *
+   * @param file - File path
+   * @param code - Contents of the TypeScript file to process
+   * @param symbols - Symbols of the file to process
+   * @param context - Declarations of related symbols from other files
+   * @returns Documentation objects (or errors) by symbol hash
+   */
+  public async processSymbols(
+    file: string,
+    code: string,
+    symbols: any[],
+    context?: string
+  ): Promise<Map<string, any | InvalidResponseError>> {
+    const result = new Map<string, any | InvalidResponseError>();
+
+    if (symbols.length > 1) {
+      debugTypescript(
+        `Processing ${symbols.length} symbols in code of length: ${code.length}`
+      );
+
+      const hashes = symbols.map((s) => s.id.hash);
+      try {
+        const reply = await this.askExpert(
+          this.buildSymbolsRequest(file, code, symbols, context),
+          { kind: "symbol", path: file, hashes },
+          "symbols"
+        );
+        for (const { hash, ...docs } of reply) {
+          if (hashes.includes(hash)) result.set(hash, docs);
+        }
+      } catch (e) {
+        if (!(e instanceof InvalidResponseError)) throw e;
+        debugError(`Bad batch reply for ${file}: ${e.message}`);
+      }
+    }
 
-    // Destroy the pool if we created it internally
-    if (this.ownedPool && this.pool) {
-      this.pool.destroy();
+    for (const symbol of symbols) {
+      if (result.has(symbol.id.hash)) continue;
+      if (symbols.length > 1)
+        debugError(
+          `Batch reply for ${file} has no docs for ${symbol.id.name}, requesting individually`
+        );
+      try {
+        result.set(
+          symbol.id.hash,
+          await this.processSymbol(file, code, symbol, context)
+        );
+      } catch (e) {
+        if (!(e instanceof InvalidResponseError)) throw e;
+        result.set(symbol.id.hash, e);
+      }
     }
+
+    return result;
+  }
+
+  /**
+   * Process a TypeScript file and generate file-level documentation
+   *
+   * @param file - File path
+   * @param code - Contents of the TypeScript file
+   * @returns Documentation object
+   */
+  public async processFile(file: string, code: string): Promise<any> {
+    debugTypescript(`Processing file: ${file}`);
+    return this.askExpert(
+      this.buildFileRequest(file, code),
+      { kind: "file", path: file },
+      "file"
+    );
+  }
+
+  /**
+   * Process a directory and generate directory-level documentation
+   *
+   * @param dir - Directory path
+   * @param tree - Directory tree structure
+   * @param fileSummaries - Summaries of files in the directory
+   * @returns Documentation object
+   */
+  public async processDir(
+    dir: string,
+    tree: string,
+    fileSummaries: string
+  ): Promise<any> {
+    debugTypescript(`Processing directory: ${dir}`);
+    return this.askExpert(
+      this.buildDirRequest(dir, tree, fileSummaries),
+      { kind: "dir", path: dir },
+      "dir"
+    );
+  }
+
+  [Symbol.dispose]() {
+    this.generator[Symbol.dispose]();
   }
 }
@@ -0,0 +1,278 @@
+import path from "path";
+import ts from "typescript";
+
+/**
+ * Resolution of source files to the public subpaths of a package,
+ * per the package.json `exports` map (or `typesVersions` without it).
+ *
+ * Export targets usually point to build output (./dist/foo.js, ./dist/foo.d.ts),
+ * they are mapped back to source files through outDir/declarationDir -> rootDir,
+ * and compared without extensions, so ./dist/foo.js matches src/foo.ts.
+ */
+
+/** Public subpath of a source file */
+export type PackageSubpath = {
+  /** "." for the package root, "./foo" for "my-lib/foo" */
+  subpath?: string;
+  /** Not reachable through the exports map, consumers can't import it */
+  isInternal: boolean;
+};
+
+type SubpathMapping = {
+  /** Subpath pattern, e.g. "./utils/*" */
+  subpath: string;
+  /** Target pattern as a project-relative source path without extension,
+   *  e.g. "src/utils/*", or null for excluded subpaths */
+  target: string | null;
+};
+
+// Conditions in the order a TypeScript consumer would use them
+const CONDITIONS_ORDER = ["types", "import", "require", "node", "default"];
+
+const norm = (p: string) => p.replace(/\\/g, "/");
+
+/**
+ * Strip TS/JS source, output and declaration extensions
+ */
+export function dropModuleExt(p: string): string {
+  return p.replace(/(\.d)?\.[mc]?[jt]sx?$/i, "");
+}
+
+/**
+ * Map a package-relative path of a build output (or source) file
+ * to the project-relative source path without extension.
+ *
+ * @param target - Path as found in package.json, e.g. "./dist/foo.js"
+ * @param projectDir - Absolute path to the package root
+ * @param options - Compiler options with outDir/declarationDir/rootDir
+ * @returns e.g. "src/foo" for "./dist/foo.js" with outDir dist and rootDir src
+ */
+export function targetToSourcePath(
+  target: string,
+  projectDir: string,
+  options: ts.CompilerOptions
+): string {
+  let rel = norm(path.relative(projectDir, path.resolve(projectDir, target)));
+
+  const rootDir = options.rootDir
+    ? norm(path.relative(projectDir, path.resolve(projectDir, options.rootDir)))
+    : "";
+  for (const outOpt of [options.declarationDir, options.outDir]) {
+    if (!outOpt) continue;
+    const outDir = norm(
+      path.relative(projectDir, path.resolve(projectDir, outOpt))
+    );
+    if (outDir && (rel === outDir || rel.startsWith(outDir + "/"))) {
+      rel = path.posix.join(rootDir, rel.slice(outDir.length + 1));
+      break;
+    }
+  }
+
+  return dropModuleExt(rel);
+}
+
+/**
+ * Collect leaf targets of an exports value, in condition priority order.
+ * Null targets are kept, they exclude a subpath.
+ */
+function collectTargets(value: unknown, out: (string | null)[]) {
+  if (value === null) {
+    out.push(null);
+  } else if (typeof value === "string") {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    for (const v of value) collectTargets(v, out);
+  } else if (typeof value === "object") {
+    const conditions = Object.keys(value as object).sort((a, b) => {
+      const ia = CONDITIONS_ORDER.indexOf(a);
+      const ib = CONDITIONS_ORDER.indexOf(b);
+      return (ia < 0 ? CONDITIONS_ORDER.length : ia) -
+        (ib < 0 ? CONDITIONS_ORDER.length : ib);
+    });
+    for (const c of conditions)
+      collectTargets((value as Record<string, unknown>)[c], out);
+  }
+}
+
+/**
+ * Match a path against a pattern with at most one "*"
+ *
+ * @returns The text matched by "*" ("" for exact patterns), or undefined
+ */
+function matchPattern(pattern: string, value: string): string | undefined {
+  const star = pattern.indexOf("*");
+  if (star < 0) return pattern === value ? "" : undefined;
+
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (
+    value.length >= prefix.length + suffix.length &&
+    value.startsWith(prefix) &&
+    value.endsWith(suffix)
+  )
+    return value.slice(prefix.length, value.length - suffix.length);
+  return undefined;
+}
+
+/**
+ * List the entrypoint modules declared in package.json (or deno.json):
+ * main, module, types/typings, bin and the non-wildcard exports targets
+ *
+ * @param packageJson - Parsed package.json or deno.json
+ * @param projectDir - Absolute path to the package root
+ * @param options - Compiler options with outDir/declarationDir/rootDir
+ * @returns Project-relative source paths without extension, e.g. "src/index"
+ */
+export function listEntrypointTargets(
+  packageJson: any,
+  projectDir: string,
+  options: ts.CompilerOptions
+): string[] {
+  const targets: (string | null)[] = [];
+  for (const field of ["main", "module", "types", "typings"])
+    collectTargets(packageJson?.[field], targets);
+
+  const bin = packageJson?.bin;
+  if (typeof bin === "string") targets.push(bin);
+  else if (bin && typeof bin === "object") collectTargets(Object.values(bin), targets);
+
+  const exportsField = packageJson?.exports;
+  if (typeof exportsField === "string" || Array.isArray(exportsField)) {
+    collectTargets(exportsField, targets);
+  } else if (exportsField && typeof exportsField === "object") {
+    for (const [key, value] of Object.entries(exportsField)) {
+      // Wildcard subpaths expose whole dirs, not entrypoints
+      if (key.includes("*")) continue;
+      collectTargets(value, targets);
+    }
+  }
+
+  const result = new Set<string>();
+  for (const t of targets) {
+    if (t === null || t.includes("*")) continue;
+    result.add(targetToSourcePath(t, projectDir, options));
+  }
+  return [...result];
+}
+
+/**
+ * Public subpaths of a package, built from its package.json (or deno.json)
+ */
+export class PackageExports {
+  private mappings: SubpathMapping[] = [];
+  private hasMap = false;
+
+  /**
+   * @param packageJson - Parsed package.json or deno.json
+   * @param projectDir - Absolute path to the package root
+   * @param options - Compiler options of the project
+   */
+  constructor(
+    packageJson: any,
+    projectDir: string,
+    options: ts.CompilerOptions
+  ) {
+    const exportsField = packageJson?.exports;
+    if (exportsField !== undefined) {
+      this.hasMap = true;
+      for (const [subpath, value] of this.subpathEntries(exportsField)) {
+        const targets: (string | null)[] = [];
+        collectTargets(value, targets);
+        // Null at the top means the subpath is excluded
+        if (!targets.length || targets[0] === null) {
+          this.mappings.push({ subpath, target: null });
+          continue;
+        }
+        for (const t of targets) {
+          if (t === null) continue;
+          this.mappings.push({
+            subpath,
+            target: targetToSourcePath(t, projectDir, options),
+          });
+        }
+      }
+    } else if (packageJson?.typesVersions) {
+      // No exports, typesVersions redirects "my-lib/<subpath>" for TS consumers,
+      // use the first range, TS picks the first one matching its version
+      const ranges = Object.values(packageJson.typesVersions);
+      const paths = (ranges[0] || {}) as Record<string, string[]>;
+      this.hasMap = true;
+      for (const [key, targets] of Object.entries(paths)) {
+        const subpath = key === "*" ? "./*" : `./${key.replace(/^\.\//, "")}`;
+        for (const t of Array.isArray(targets) ? targets : [targets]) {
+          this.mappings.push({
+            subpath,
+            target: targetToSourcePath(t, projectDir, options),
+          });
+        }
+      }
+      // The package root is still resolved through types/main
+      for (const t of [packageJson.types, packageJson.typings, packageJson.main]) {
+        if (typeof t === "string")
+          this.mappings.push({
+            subpath: ".",
+            target: targetToSourcePath(t, projectDir, options),
+          });
+      }
+    }
+
+    // Exact subpaths first, then more specific (longer) patterns
+    this.mappings.sort(
+      (a, b) =>
+        Number(a.subpath.includes("*")) - Number(b.subpath.includes("*")) ||
+        (a.subpath.includes("*") ? b.subpath.length - a.subpath.length : 0)
+    );
+  }
+
+  /**
+   * Whether the package restricts its public subpaths,
+   * without exports/typesVersions any file can be deep-imported
+   */
+  hasExportsMap(): boolean {
+    return this.hasMap;
+  }
+
+  /**
+   * Find the public subpath a source file is importable from
+   *
+   * @param projectRelFile - Project-relative path of the source file
+   * @returns The subpath, or isInternal if the exports map doesn't expose the file
+   */
+  resolve(projectRelFile: string): PackageSubpath {
+    if (!this.hasMap) return { isInternal: false };
+
+    const file = dropModuleExt(norm(projectRelFile));
+    for (const m of this.mappings) {
+      if (m.target === null) continue;
+      const match = matchPattern(m.target, file);
+      if (match === undefined) continue;
+
+      const subpath = m.subpath.replace("*", match);
+      if (this.isExcluded(subpath)) continue;
+      return { subpath, isInternal: false };
+    }
+
+    return { isInternal: true };
+  }
+
+  private isExcluded(subpath: string): boolean {
+    return this.mappings.some(
+      (m) => m.target === null && matchPattern(m.subpath, subpath) !== undefined
+    );
+  }
+
+  private subpathEntries(exportsField: unknown): [string, unknown][] {
+    // "exports": "./index.js" or ["./index.js"]
+    if (typeof exportsField === "string" || Array.isArray(exportsField))
+      return [[".", exportsField]];
+    if (!exportsField || typeof exportsField !== "object") return [];
+
+    const keys = Object.keys(exportsField);
+    // "exports": { "import": ..., "require": ... } - conditions of "."
+    if (!keys.some((k) => k.startsWith("."))) return [[".", exportsField]];
+
+    return keys
+      .filter((k) => k.startsWith("."))
+      .map((k) => [k, (exportsField as Record<string, unknown>)[k]]);
+  }
+}
@@ -0,0 +1,231 @@
+import path from "path";
+import ts from "typescript";
+import { StableSymbolId, Symbol, TypeScript } from "./TypeScript.js";
+import { buildStableId, resolveIfAlias } from "./utils.js";
+
+/**
+ * References of a symbol to and from other known symbols
+ */
+export type SymbolReferences = {
+  calls: StableSymbolId[];
+  calledBy: StableSymbolId[];
+  implementedBy: StableSymbolId[];
+};
+
+type RefSets = {
+  calls: Set<string>;
+  calledBy: Set<string>;
+  implementedBy: Set<string>;
+};
+
+// Declarations that may be a caller or callee symbol
+function isSymbolDeclaration(node: ts.Node): node is ts.Declaration {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isMethodSignature(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node) ||
+    ts.isPropertyDeclaration(node) ||
+    ts.isPropertySignature(node) ||
+    ts.isPropertyAssignment(node) ||
+    ts.isVariableDeclaration(node) ||
+    ts.isClassDeclaration(node) ||
+    ts.isInterfaceDeclaration(node)
+  );
+}
+
+/**
+ * Cross references between the symbols of a project, built with the type checker:
+ * - calls / calledBy: call and `new` expressions, attributed to the innermost
+ *   enclosing known symbol (function, method, variable, class...)
+ * - implementedBy: classes implementing interfaces, class members implementing
+ *   interface members, and members overriding base class members
+ *
+ * Only symbols passed to the constructor (usually listRootSymbols) are linked,
+ * references to dependencies and locals are ignored.
+ */
+export class ReferenceIndex {
+  private project: TypeScript;
+  private checker: ts.TypeChecker;
+  private ids = new Map<string, StableSymbolId>();
+  private refs = new Map<string, RefSets>();
+  // Cache of declaration -> known symbol hash (null if not a known symbol)
+  private declHashes = new Map<ts.Node, string | null>();
+
+  /**
+   * Build the index
+   *
+   * @param project - Analyzer of the project
+   * @param symbols - Flat list of the project symbols to link
+   */
+  constructor(project: TypeScript, symbols: Symbol[]) {
+    this.project = project;
+    this.checker = project.getProgram().getTypeChecker();
+    for (const s of symbols) this.ids.set(s.id.hash, s.id);
+
+    const projectDir = project.getProjectDir();
+    for (const sf of project.getProgram().getSourceFiles()) {
+      if (sf.isDeclarationFile) continue;
+      if (!path.resolve(sf.fileName).startsWith(projectDir)) continue;
+      this.visit(sf);
+    }
+  }
+
+  /**
+   * Get references of a symbol
+   *
+   * @param hash - StableSymbolId.hash of the symbol
+   * @returns References, sorted by file and name
+   */
+  get(hash: string): SymbolReferences {
+    const sets = this.refs.get(hash);
+    const toIds = (set?: Set<string>) =>
+      [...(set || [])]
+        .map((h) => this.ids.get(h)!)
+        .sort(
+          (a, b) =>
+            a.file.localeCompare(b.file) ||
+            formatSymbolRef(a).localeCompare(formatSymbolRef(b))
+        );
+    return {
+      calls: toIds(sets?.calls),
+      calledBy: toIds(sets?.calledBy),
+      implementedBy: toIds(sets?.implementedBy),
+    };
+  }
+
+  private sets(hash: string): RefSets {
+    let sets = this.refs.get(hash);
+    if (!sets) {
+      sets = { calls: new Set(), calledBy: new Set(), implementedBy: new Set() };
+      this.refs.set(hash, sets);
+    }
+    return sets;
+  }
+
+  /**
+   * Hash of a declaration if it's one of the indexed symbols
+   */
+  private hashOf(decl: ts.Node): string | undefined {
+    const cached = this.declHashes.get(decl);
+    if (cached !== undefined) return cached ?? undefined;
+
+    let hash: string | null = null;
+    if (isSymbolDeclaration(decl)) {
+      const id = buildStableId(
+        this.project.getProgram(),
+        this.project.getProjectDir(),
+        decl
+      );
+      if (id && this.ids.has(id.hash)) hash = id.hash;
+    }
+    this.declHashes.set(decl, hash);
+    return hash ?? undefined;
+  }
+
+  /**
+   * Innermost known symbol containing the node
+   */
+  private enclosingHash(node: ts.Node): string | undefined {
+    for (let n = node.parent; n && !ts.isSourceFile(n); n = n.parent) {
+      const hash = this.hashOf(n);
+      if (hash) return hash;
+    }
+    return undefined;
+  }
+
+  /**
+   * Known symbol called by a call or new expression
+   */
+  private calleeHash(
+    call: ts.CallExpression | ts.NewExpression
+  ): string | undefined {
+    let decl: ts.Node | undefined =
+      this.checker.getResolvedSignature(call)?.declaration;
+
+    // Functions assigned to variables and properties are known by those
+    if (decl && (ts.isArrowFunction(decl) || ts.isFunctionExpression(decl)))
+      decl = decl.parent;
+
+    // Classes without explicit constructor
+    if (!decl && ts.isNewExpression(call)) {
+      const sym = this.checker.getSymbolAtLocation(call.expression);
+      decl = sym && resolveIfAlias(this.checker, sym).valueDeclaration;
+    }
+
+    return decl ? this.hashOf(decl) : undefined;
+  }
+
+  private link(kind: "calls" | "implementedBy", from: string, to: string) {
+    if (from === to) return;
+    if (kind === "calls") {
+      this.sets(from).calls.add(to);
+      this.sets(to).calledBy.add(from);
+    } else {
+      // `from` is implemented by `to`
+      this.sets(from).implementedBy.add(to);
+    }
+  }
+
+  private visit(node: ts.Node) {
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      const callee = this.calleeHash(node);
+      const caller = callee && this.enclosingHash(node);
+      if (callee && caller) this.link("calls", caller, callee);
+    }
+
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node))
+      this.visitHeritage(node);
+
+    ts.forEachChild(node, (c) => this.visit(c));
+  }
+
+  /**
+   * Link implemented interfaces and base classes to the class and its members
+   */
+  private visitHeritage(cls: ts.ClassLikeDeclaration) {
+    const classHash = this.hashOf(cls);
+    for (const clause of cls.heritageClauses || []) {
+      for (const typeNode of clause.types) {
+        const type = this.checker.getTypeAtLocation(typeNode);
+        const baseSym = type.getSymbol();
+        const baseDecl = baseSym?.getDeclarations()?.[0];
+        if (!baseDecl) continue;
+
+        const baseHash = this.hashOf(baseDecl);
+        if (baseHash && classHash) this.link("implementedBy", baseHash, classHash);
+
+        // Members implementing/overriding base members of the same name
+        for (const member of cls.members) {
+          if (!member.name) continue;
+          const memberHash = this.hashOf(member);
+          if (!memberHash) continue;
+
+          // Matched by escaped name, computed names like [Symbol.iterator]
+          // have no source text name to look up
+          const name = this.checker.getSymbolAtLocation(
+            member.name
+          )?.escapedName;
+          if (!name) continue;
+          const baseMember = this.checker
+            .getPropertiesOfType(type)
+            .find((p) => p.escapedName === name);
+          for (const d of baseMember?.getDeclarations() || []) {
+            const h = this.hashOf(d);
+            if (h) this.link("implementedBy", h, memberHash);
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Format a symbol reference for docs, e.g. "Client.connect (src/client.ts)"
+ */
+export function formatSymbolRef(id: StableSymbolId): string {
+  const name = [...id.containerChain.map((c) => c.name), id.name].join(".");
+  return `${name} (${id.file})`;
+}
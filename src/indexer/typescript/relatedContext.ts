@@ -0,0 +1,199 @@
+import path from "path";
+import ts from "typescript";
+import { Symbol, TypeScript } from "./TypeScript.js";
+import { getDeclarationHeader } from "./utils.js";
+import { debugTypescript } from "../../utils/debug.js";
+import { CHARS_PER_TOKEN } from "../../utils/costEstimate.js";
+
+/**
+ * Declaration of a symbol related to the one being documented
+ */
+type RelatedDeclaration = {
+  /** StableSymbolId.hash, if the declaration is one of the known symbols */
+  hash?: string;
+  /** Project-relative posix path */
+  file: string;
+  /** Declaration header, with member headers for interfaces and object types */
+  header: string;
+};
+
+// Interfaces and object type aliases are mostly described by their members
+function memberHeaders(decl: ts.Declaration, sf: ts.SourceFile): string[] {
+  let members: ts.NodeArray<ts.TypeElement> | undefined;
+  if (ts.isInterfaceDeclaration(decl)) members = decl.members;
+  else if (ts.isTypeAliasDeclaration(decl) && ts.isTypeLiteralNode(decl.type))
+    members = decl.type.members;
+  if (!members) return [];
+  return [...members.map((m) => "  " + getDeclarationHeader(m, sf)), "}"];
+}
+
+/**
+ * Context for documenting symbols: headers of the related() symbols declared
+ * in other files, with their summaries once those are documented.
+ *
+ * Also orders symbols by dependencies, so that related symbols get documented
+ * (and their summaries become available) before the symbols that use them.
+ */
+export class RelatedContext {
+  private project: TypeScript;
+  private maxTokens: number;
+  private known = new Set<string>();
+  private relatedCache = new Map<string, RelatedDeclaration[]>();
+  private summaries = new Map<string, string>();
+
+  /**
+   * @param project - Analyzer of the project
+   * @param symbols - Flat list of the project symbols that may get summaries
+   * @param maxTokens - Token budget of the context of a single request, 0 to disable
+   */
+  constructor(project: TypeScript, symbols: Symbol[], maxTokens: number) {
+    this.project = project;
+    this.maxTokens = maxTokens;
+    for (const s of symbols) this.known.add(s.id.hash);
+  }
+
+  /**
+   * Remember the generated summary of a symbol to include it in later requests
+   *
+   * @param hash - StableSymbolId.hash of the symbol
+   * @param summary - Summary from the docs
+   */
+  addSummary(hash: string, summary: string) {
+    if (summary) this.summaries.set(hash, summary);
+  }
+
+  /**
+   * Build the context for a request documenting the symbols,
+   * declarations used by several symbols are only included once.
+   *
+   * @param symbols - Symbols of the same file
+   * @returns Context text, empty if there's nothing related or no budget
+   */
+  build(symbols: Symbol[]): string {
+    if (this.maxTokens <= 0) return "";
+
+    const maxChars = this.maxTokens * CHARS_PER_TOKEN;
+    const seen = new Set<string>();
+    const parts: string[] = [];
+    let size = 0;
+    for (const symbol of symbols) {
+      for (const rel of this.getRelated(symbol)) {
+        if (rel.file === symbol.id.file) continue; // in the code already
+        const key = rel.hash || `${rel.file}:${rel.header}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const summary = rel.hash ? this.summaries.get(rel.hash) : undefined;
+        const part = [
+          `// ${rel.file}`,
+          rel.header,
+          ...(summary ? [`// summary: ${summary.replace(/\n/g, " ")}`] : []),
+        ].join("\n");
+        if (size + part.length > maxChars) {
+          debugTypescript(
+            `Related context of ${symbol.id.name} truncated at ${parts.length} declarations`
+          );
+          return parts.join("\n\n");
+        }
+        parts.push(part);
+        size += part.length + 2;
+      }
+    }
+    return parts.join("\n\n");
+  }
+
+  /**
+   * Order symbols so that the symbols they relate to go first,
+   * cycles are broken by the original order.
+   *
+   * @param symbols - Symbols to order
+   * @returns New array with the same symbols
+   */
+  orderByDependencies<T extends Symbol>(symbols: T[]): T[] {
+    const byHash = new Map(symbols.map((s) => [s.id.hash, s]));
+    const visited = new Set<string>();
+    const result: T[] = [];
+
+    // Iterative post-order DFS, deep type chains shouldn't blow the stack
+    for (const root of symbols) {
+      if (visited.has(root.id.hash)) continue;
+      visited.add(root.id.hash);
+      const stack: { symbol: T; deps: T[] }[] = [
+        { symbol: root, deps: this.dependencies(root, byHash) },
+      ];
+      while (stack.length) {
+        const top = stack[stack.length - 1];
+        const dep = top.deps.shift();
+        if (!dep) {
+          result.push(top.symbol);
+          stack.pop();
+        } else if (!visited.has(dep.id.hash)) {
+          visited.add(dep.id.hash);
+          stack.push({ symbol: dep, deps: this.dependencies(dep, byHash) });
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Hashes of the known symbols a symbol relates to
+   *
+   * @param symbol - The symbol
+   * @returns Hashes of its dependencies, without the symbol itself
+   */
+  dependencyHashes(symbol: Symbol): string[] {
+    const hashes: string[] = [];
+    for (const rel of this.getRelated(symbol)) {
+      if (rel.hash && rel.hash !== symbol.id.hash) hashes.push(rel.hash);
+    }
+    return hashes;
+  }
+
+  private dependencies<T extends Symbol>(symbol: T, byHash: Map<string, T>): T[] {
+    const deps: T[] = [];
+    for (const rel of this.getRelated(symbol)) {
+      const dep = rel.hash ? byHash.get(rel.hash) : undefined;
+      if (dep && dep !== symbol) deps.push(dep);
+    }
+    return deps;
+  }
+
+  /**
+   * Related declarations of a symbol, cached by symbol hash
+   */
+  private getRelated(symbol: Symbol): RelatedDeclaration[] {
+    const cached = this.relatedCache.get(symbol.id.hash);
+    if (cached) return cached;
+
+    const result: RelatedDeclaration[] = [];
+    const resolved = this.project.resolveStableId(symbol.id);
+    if (resolved) {
+      const projectDir = this.project.getProjectDir();
+      for (const item of this.project.related(resolved.decl)) {
+        const decl =
+          item.symbol.valueDeclaration ?? item.symbol.declarations?.[0];
+        if (!decl) continue;
+
+        const sf = decl.getSourceFile();
+        const hash = this.project.buildStableId(decl)?.hash;
+        result.push({
+          hash: hash && this.known.has(hash) ? hash : undefined,
+          file: path
+            .relative(projectDir, sf.fileName)
+            .split(path.sep)
+            .join("/"),
+          header: [
+            getDeclarationHeader(decl, sf),
+            ...memberHeaders(decl, sf),
+          ].join("\n"),
+        });
+      }
+    } else {
+      debugTypescript(`Failed to resolve ${symbol.id.name} for related context`);
+    }
+
+    this.relatedCache.set(symbol.id.hash, result);
+    return result;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Validation of model replies to doc generation requests.
+ *
+ * Models often wrap JSON in markdown fences, put raw line breaks into
+ * strings, use invalid escapes, leave keys unquoted or reply with
+ * "ERROR: <reason>", all of which JSON.parse rejects or accepts as garbage.
+ */
+
+/**
+ * Expected shape of the reply:
+ * - symbol, file: { summary, details }
+ * - symbols: [{ hash, summary, details }, ...]
+ * - dir: { summary }
+ */
+export type ResponseShape = "symbol" | "symbols" | "file" | "dir";
+
+/**
+ * Thrown when the model reply can't be turned into a valid doc
+ */
+export class InvalidResponseError extends Error {
+  /** error - model replied with "ERROR: <reason>", json - unparseable, shape - wrong fields */
+  kind: "error" | "json" | "shape";
+  /** Raw model reply */
+  content: string;
+
+  constructor(
+    message: string,
+    kind: InvalidResponseError["kind"],
+    content: string
+  ) {
+    super(message);
+    this.name = "InvalidResponseError";
+    this.kind = kind;
+    this.content = content;
+  }
+}
+
+/**
+ * Extract the contents of a markdown code fence wrapping the whole reply.
+ * Fences inside the reply (i.e. code examples in 'details') are kept,
+ * text around a fence is left for repairJson to cut.
+ *
+ * @param text - Model reply
+ * @returns Text inside the fence, or the trimmed text if it isn't fenced
+ */
+export function stripCodeFences(text: string): string {
+  const match = text.match(/^\s*```[\w-]*[ \t]*\r?\n([\s\S]*)\r?\n```\s*$/);
+  return (match ? match[1] : text).trim();
+}
+
+/**
+ * Repair common JSON mistakes of models: raw control chars and invalid
+ * escapes inside strings, unquoted keys, trailing commas and text around
+ * the JSON document.
+ *
+ * @param text - Almost-JSON text
+ * @returns Repaired text, not guaranteed to be valid JSON
+ */
+export function repairJson(text: string): string {
+  // Cut text before the first and after the last bracket
+  const start = text.search(/[\[{]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  if (start >= 0 && end > start) text = text.slice(start, end + 1);
+
+  let out = "";
+  let inString = false;
+  // Last non-whitespace char outside of strings
+  let prev = "";
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === "\\") {
+        const next = text[i + 1];
+        if (next !== undefined && '"\\/bfnrtu'.includes(next)) {
+          out += c + next;
+          i++;
+        } else {
+          // Invalid escape like \d, keep the backslash literally
+          out += "\\\\";
+        }
+      } else if (c === '"') {
+        inString = false;
+        prev = c;
+        out += c;
+      } else if (c === "\n") {
+        out += "\\n";
+      } else if (c === "\r") {
+        out += "\\r";
+      } else if (c === "\t") {
+        out += "\\t";
+      } else {
+        out += c;
+      }
+      continue;
+    }
+
+    if (c === '"') {
+      inString = true;
+      out += c;
+    } else if (/[A-Za-z_$]/.test(c) && (prev === "{" || prev === ",")) {
+      // Unquoted key
+      const key = text.slice(i).match(/^[A-Za-z_$][\w$]*(?=\s*:)/);
+      if (key) {
+        out += `"${key[0]}"`;
+        i += key[0].length - 1;
+      } else {
+        out += c;
+      }
+    } else {
+      out += c;
+    }
+    if (!/\s/.test(c)) prev = c;
+  }
+
+  // Trailing commas
+  return out.replace(/,(\s*[}\]])/g, "$1");
+}
+
+function checkDoc(
+  doc: any,
+  content: string,
+  withDetails: boolean,
+  withHash: boolean
+): any {
+  if (!doc || typeof doc !== "object" || Array.isArray(doc))
+    throw new InvalidResponseError("Doc is not an object", "shape", content);
+  if (typeof doc.summary !== "string" || !doc.summary.trim())
+    throw new InvalidResponseError(
+      "Doc has no 'summary' string",
+      "shape",
+      content
+    );
+  if (withHash && typeof doc.hash !== "string")
+    throw new InvalidResponseError("Doc has no 'hash' string", "shape", content);
+
+  if (withDetails) {
+    if (doc.details === undefined || doc.details === null) doc.details = "";
+    if (typeof doc.details !== "string")
+      throw new InvalidResponseError(
+        "Doc 'details' is not a string",
+        "shape",
+        content
+      );
+  }
+  return doc;
+}
+
+/**
+ * Parse and validate a model reply
+ *
+ * @param content - Raw model reply
+ * @param shape - Expected shape of the reply
+ * @returns The parsed doc(s), missing 'details' are set to ""
+ * @throws InvalidResponseError if the reply is an error, not JSON, or has the wrong shape
+ */
+export function parseResponse(content: string, shape: ResponseShape): any {
+  // Valid JSON as is, fences inside its strings must stay untouched
+  let doc: any;
+  try {
+    doc = JSON.parse(content);
+  } catch {}
+  if (doc !== undefined) return checkShape(doc, content, shape);
+
+  const text = stripCodeFences(content);
+
+  const error = text.match(/^ERROR:\s*([\s\S]*)/i);
+  if (error)
+    throw new InvalidResponseError(
+      `Model returned error: ${error[1].trim()}`,
+      "error",
+      content
+    );
+
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    try {
+      doc = JSON.parse(repairJson(text));
+    } catch (e) {
+      throw new InvalidResponseError(
+        `Invalid JSON: ${(e as Error).message}`,
+        "json",
+        content
+      );
+    }
+  }
+
+  return checkShape(doc, content, shape);
+}
+
+function checkShape(doc: any, content: string, shape: ResponseShape): any {
+  switch (shape) {
+    case "symbols":
+      if (!Array.isArray(doc))
+        throw new InvalidResponseError("Reply is not an array", "shape", content);
+      return doc.map((d) => checkDoc(d, content, true, true));
+    case "dir":
+      return checkDoc(doc, content, false, false);
+    default:
+      return checkDoc(doc, content, true, false);
+  }
+}
+
+/**
+ * Describe the expected reply format for the corrective message
+ */
+export function describeShape(shape: ResponseShape): string {
+  switch (shape) {
+    case "symbols":
+      return '[{ "hash": <symbol_id_hash>, "summary": <public_docs>, "details": <implementation_docs> }, ...]';
+    case "dir":
+      return '{ "summary": <public_docs> }';
+    default:
+      return '{ "summary": <public_docs>, "details": <implementation_docs> }';
+  }
+}
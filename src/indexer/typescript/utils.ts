@@ -438,7 +438,7 @@ export function findInterfaceDecl(
   return out;
 }
 
-/** Utility: is this a file likely to be an entrypoint, by heuristics */
+/** Utility: is this a file likely to be an entrypoint, by heuristics (used when package.json declares none) */
 export function looksLikeEntrypoint(rel: string): boolean {
   // favor index.ts at repo root or src/index.ts, and top-level files in general
   return (
@@ -467,6 +467,16 @@ function hashHeader(txt: string): string {
   return bytesToHex(sha256(normalizeHeaderText(txt))).slice(0, 16);
 }
 
+/**
+ * Hash of the full declaration text (header and body, without leading JSDoc),
+ * normalized like headers so that formatting and comment changes are ignored.
+ * Unlike headerHash it changes when the implementation changes.
+ */
+export function hashBody(decl: ts.Declaration, sf: ts.SourceFile): string {
+  const txt = sf.text.slice(decl.getStart(sf), decl.getEnd());
+  return hashHeader(txt);
+}
+
 // Walk up containers (class/interface/module)
 function containerChainOf(
   decl: ts.Declaration,
@@ -1291,7 +1301,13 @@ export function makeImportStatement(
   rel = dropIndex(dropExt(rel));
 
   let spec: string;
-  if (packageName) {
+  if (packageName && exp.subpath) {
+    // Public subpath per package.json exports
+    spec =
+      exp.subpath === "."
+        ? packageName
+        : `${packageName}/${exp.subpath.replace(/^\.\//, "")}`;
+  } else if (packageName) {
     // Package import
     spec = rel ? `${packageName}/${rel}` : packageName;
   } else {
@@ -0,0 +1,399 @@
+import path from "path";
+import ts from "typescript";
+import { FoundExport, TypeScript } from "../indexer/typescript/TypeScript.js";
+import {
+  getDeclarationHeader,
+  looksLikeEntrypoint,
+} from "../indexer/typescript/utils.js";
+
+/**
+ * Public API surface of packages, in the spirit of api-extractor reports.
+ *
+ * Exports are grouped by entrypoint: public subpaths of package.json exports
+ * if the package has them, otherwise the entrypoint files (main/types/bin...).
+ * Everything is sorted so reports of the same code are identical.
+ */
+
+/** One exported name of an entrypoint */
+export interface ApiExport {
+  name: string;
+  /** class, interface, type, enum, function, variable, namespace */
+  kind: string;
+  typeOnly: boolean;
+  /** Declaration as consumers see it: headers of functions, public interface of classes */
+  signature: string;
+  /** Project-relative file of the declaration */
+  file: string;
+}
+
+export interface ApiEntrypoint {
+  /** Subpath ("." or "./foo") or project-relative entrypoint file */
+  entrypoint: string;
+  /** Module specifier consumers import from */
+  importPath: string;
+  exports: ApiExport[];
+}
+
+export interface ApiPackage {
+  name: string;
+  version?: string;
+  /** Workspace path relative to the project, "." for single packages */
+  workspace: string;
+  entrypoints: ApiEntrypoint[];
+}
+
+export interface ApiReport {
+  packages: ApiPackage[];
+}
+
+export type ApiChangeKind = "added" | "removed" | "changed";
+
+export interface ApiChange {
+  change: ApiChangeKind;
+  package: string;
+  importPath: string;
+  name: string;
+  kind: string;
+  /** Signature in the old report, for removed and changed */
+  oldSignature?: string;
+  /** Signature in the new report, for added and changed */
+  newSignature?: string;
+}
+
+const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const relPath = (dir: string, file: string) =>
+  path.relative(dir, path.resolve(file)).replace(/\\/g, "/");
+
+/**
+ * Collapse whitespace and drop comments, so formatting changes
+ * aren't reported as signature changes
+ */
+function normalizeSignature(signature: string): string {
+  return signature
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/\/\/[^\n]*/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/\s*([{}();,:<>|&=[\]])\s*/g, "$1")
+    .trim();
+}
+
+function declarationKind(decl: ts.Declaration): string {
+  if (ts.isClassDeclaration(decl) || ts.isClassExpression(decl)) return "class";
+  if (ts.isInterfaceDeclaration(decl)) return "interface";
+  if (ts.isTypeAliasDeclaration(decl)) return "type";
+  if (ts.isEnumDeclaration(decl)) return "enum";
+  if (ts.isFunctionDeclaration(decl)) return "function";
+  if (ts.isModuleDeclaration(decl) || ts.isSourceFile(decl)) return "namespace";
+  if (ts.isVariableDeclaration(decl)) return "variable";
+  return ts.SyntaxKind[decl.kind];
+}
+
+/**
+ * Print what consumers can rely on for an exported declaration
+ */
+function printSignature(
+  project: TypeScript,
+  workspacePath: string,
+  root: FoundExport,
+  decl: ts.Declaration
+): string {
+  const sf = decl.getSourceFile();
+  const checker = project.getProgram().getTypeChecker();
+
+  if (ts.isClassDeclaration(decl) || ts.isClassExpression(decl))
+    return project.printClassLikePublicInterface(decl, {});
+
+  if (
+    ts.isInterfaceDeclaration(decl) ||
+    ts.isTypeAliasDeclaration(decl) ||
+    ts.isEnumDeclaration(decl)
+  )
+    return decl.getText(sf);
+
+  if (ts.isFunctionDeclaration(decl)) {
+    // With overloads, the implementation signature isn't callable
+    const decls = (root.symbol.getDeclarations() || []).filter(
+      ts.isFunctionDeclaration
+    );
+    const overloads = decls.filter((d) => !d.body);
+    return (overloads.length ? overloads : decls)
+      .map((d) => {
+        // Print with the inferred return type
+        const signature = checker.getSignatureFromDeclaration(d);
+        if (!signature || !d.name)
+          return getDeclarationHeader(d, d.getSourceFile());
+        return `export function ${d.name.getText(
+          d.getSourceFile()
+        )}${checker.signatureToString(
+          signature,
+          d,
+          ts.TypeFormatFlags.NoTruncation
+        )}`;
+      })
+      .join("\n");
+  }
+
+  if (ts.isVariableDeclaration(decl)) {
+    const keyword =
+      decl.parent && ts.getCombinedNodeFlags(decl) & ts.NodeFlags.Const
+        ? "const"
+        : "let";
+    const type = checker.typeToString(
+      checker.getTypeOfSymbolAtLocation(root.symbol, decl),
+      decl,
+      ts.TypeFormatFlags.NoTruncation
+    );
+    return `export ${keyword} ${decl.name.getText(sf)}: ${type}`;
+  }
+
+  if (ts.isSourceFile(decl))
+    return `namespace ${root.exportName} // ${relPath(
+      workspacePath,
+      decl.fileName
+    )}`;
+
+  return getDeclarationHeader(decl, sf);
+}
+
+/**
+ * Find the entrypoint consumers import an export from
+ *
+ * @param root - Export of the package
+ * @param packageName - Name of the package
+ * @param entrypointFiles - Absolute paths of the package entrypoints
+ * @param workspacePath - Absolute path to the package
+ * @returns Entrypoint and import path, or undefined if the export isn't public
+ */
+export function getPublicEntrypoint(
+  root: FoundExport,
+  packageName: string,
+  entrypointFiles: Set<string>,
+  workspacePath: string
+): Pick<ApiEntrypoint, "entrypoint" | "importPath"> | undefined {
+  if (root.isInternal) return;
+
+  if (root.subpath) {
+    return {
+      entrypoint: root.subpath,
+      importPath:
+        root.subpath === "."
+          ? packageName
+          : `${packageName}/${root.subpath.replace(/^\.\//, "")}`,
+    };
+  }
+
+  const rel = relPath(workspacePath, root.moduleFile);
+  if (
+    entrypointFiles.has(root.moduleFile) ||
+    (!entrypointFiles.size && looksLikeEntrypoint(rel))
+  )
+    return { entrypoint: rel, importPath: packageName };
+}
+
+/**
+ * Build the public API report of a package
+ *
+ * @param project - Analyzer of the package
+ * @param workspacePath - Absolute path to the package
+ * @param workspace - Workspace path relative to the project, "." for single packages
+ * @returns Package report with sorted entrypoints and exports
+ */
+export function buildApiPackage(
+  project: TypeScript,
+  workspacePath: string,
+  workspace: string
+): ApiPackage {
+  const packageJson = project.getPackageJson() || {};
+  const name: string = packageJson.name || "<package>";
+
+  const entrypointFiles = new Set(project.getEntrypoints());
+  const byEntrypoint = new Map<string, ApiEntrypoint>();
+
+  for (const root of project.list()) {
+
+    const publicEntry = getPublicEntrypoint(
+      root,
+      name,
+      entrypointFiles,
+      workspacePath
+    );
+    if (!publicEntry) continue;
+    const { entrypoint, importPath } = publicEntry;
+
+    const decl =
+      root.symbol.valueDeclaration ?? root.symbol.getDeclarations()?.[0];
+    if (!decl) continue;
+
+    let group = byEntrypoint.get(entrypoint);
+    if (!group) {
+      group = { entrypoint, importPath, exports: [] };
+      byEntrypoint.set(entrypoint, group);
+    }
+    // Same name exported as a type and a value (class + namespace merges etc)
+    if (group.exports.some((e) => e.name === root.exportName)) continue;
+
+    group.exports.push({
+      name: root.exportName,
+      kind: root.importKind === "namespace" ? "namespace" : declarationKind(decl),
+      typeOnly: root.isTypeOnly,
+      signature: printSignature(project, workspacePath, root, decl),
+      file: relPath(workspacePath, decl.getSourceFile().fileName),
+    });
+  }
+
+  const entrypoints = [...byEntrypoint.values()].sort(
+    (a, b) =>
+      Number(b.entrypoint === ".") - Number(a.entrypoint === ".") ||
+      compare(a.entrypoint, b.entrypoint)
+  );
+  for (const e of entrypoints)
+    e.exports.sort((a, b) => compare(a.name, b.name) || compare(a.kind, b.kind));
+
+  return {
+    name,
+    version: packageJson.version,
+    workspace,
+    entrypoints,
+  };
+}
+
+/**
+ * Render a report as markdown, one code block per entrypoint
+ */
+export function renderApiReportMarkdown(report: ApiReport): string {
+  let md = "";
+  for (const pkg of report.packages) {
+    md += `# API Report: ${pkg.name}${pkg.version ? `@${pkg.version}` : ""}\n\n`;
+    if (pkg.workspace !== ".") md += `Workspace: \`${pkg.workspace}\`\n\n`;
+    if (!pkg.entrypoints.length) md += "No public exports found.\n\n";
+
+    for (const e of pkg.entrypoints) {
+      md += `## \`${e.importPath}\``;
+      if (e.entrypoint !== "." && !e.entrypoint.startsWith("./"))
+        md += ` (${e.entrypoint})`;
+      md += "\n\n```ts\n";
+      md += e.exports
+        .map(
+          (x) =>
+            `// ${x.kind}${x.typeOnly ? ", type-only" : ""} ${x.name} (${x.file})\n${x.signature}\n`
+        )
+        .join("\n");
+      md += "```\n\n";
+    }
+  }
+  return md.trimEnd() + "\n";
+}
+
+/**
+ * Compare two reports, signatures are compared ignoring formatting
+ *
+ * @param oldReport - Report of the previous version
+ * @param newReport - Report of the current version
+ * @returns Changes sorted by package, import path and name
+ */
+export function diffApiReports(
+  oldReport: ApiReport,
+  newReport: ApiReport
+): ApiChange[] {
+  type Item = { package: string; importPath: string; exp: ApiExport };
+  const index = (report: ApiReport) => {
+    const items = new Map<string, Item>();
+    for (const pkg of report.packages)
+      for (const e of pkg.entrypoints)
+        for (const exp of e.exports)
+          items.set(`${pkg.name}\0${e.importPath}\0${exp.name}`, {
+            package: pkg.name,
+            importPath: e.importPath,
+            exp,
+          });
+    return items;
+  };
+  const oldItems = index(oldReport);
+  const newItems = index(newReport);
+
+  const changes: ApiChange[] = [];
+  for (const [key, n] of newItems) {
+    const o = oldItems.get(key);
+    const base = {
+      package: n.package,
+      importPath: n.importPath,
+      name: n.exp.name,
+      kind: n.exp.kind,
+    };
+    if (!o) {
+      changes.push({ change: "added", ...base, newSignature: n.exp.signature });
+    } else if (
+      o.exp.kind !== n.exp.kind ||
+      o.exp.typeOnly !== n.exp.typeOnly ||
+      normalizeSignature(o.exp.signature) !== normalizeSignature(n.exp.signature)
+    ) {
+      changes.push({
+        change: "changed",
+        ...base,
+        oldSignature: o.exp.signature,
+        newSignature: n.exp.signature,
+      });
+    }
+  }
+  for (const [key, o] of oldItems) {
+    if (newItems.has(key)) continue;
+    changes.push({
+      change: "removed",
+      package: o.package,
+      importPath: o.importPath,
+      name: o.exp.name,
+      kind: o.exp.kind,
+      oldSignature: o.exp.signature,
+    });
+  }
+
+  return changes.sort(
+    (a, b) =>
+      compare(a.package, b.package) ||
+      compare(a.importPath, b.importPath) ||
+      compare(a.name, b.name)
+  );
+}
+
+/**
+ * Render API changes as markdown, grouped into removed/changed/added
+ */
+export function renderApiDiffMarkdown(changes: ApiChange[]): string {
+  if (!changes.length) return "No API changes.\n";
+
+  const sections: [ApiChangeKind, string][] = [
+    ["removed", "Removed"],
+    ["changed", "Changed signature"],
+    ["added", "Added"],
+  ];
+  let md = "# API Changes\n\n";
+  for (const [kind, title] of sections) {
+    const list = changes.filter((c) => c.change === kind);
+    if (!list.length) continue;
+    md += `## ${title} (${list.length})\n\n`;
+    for (const c of list) {
+      md += `### \`${c.name}\` (${c.kind}) from \`${c.importPath}\`\n\n`;
+      if (c.oldSignature !== undefined && c.newSignature !== undefined) {
+        md += "```diff\n";
+        md += c.oldSignature.split("\n").map((l) => `- ${l}`).join("\n") + "\n";
+        md += c.newSignature.split("\n").map((l) => `+ ${l}`).join("\n") + "\n";
+        md += "```\n\n";
+      } else {
+        md += "```ts\n" + (c.oldSignature ?? c.newSignature) + "\n```\n\n";
+      }
+    }
+  }
+  return md.trimEnd() + "\n";
+}
+
+/**
+ * Check that parsed JSON looks like an ApiReport
+ */
+export function isApiReport(data: any): data is ApiReport {
+  return (
+    !!data &&
+    Array.isArray(data.packages) &&
+    data.packages.every((p: any) => Array.isArray(p?.entrypoints))
+  );
+}
@@ -0,0 +1,221 @@
+import { ChatCompletionCreateParams } from "openai/resources";
+import { TypescriptIndexer } from "../indexer/typescript/TypescriptIndexer.js";
+import { debugCli, debugError } from "./debug.js";
+
+/** Rough number of characters per token for code and English text */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimated cost of a single request that 'generate' would send
+ */
+export interface RequestEstimate {
+  kind: "symbol" | "file" | "dir";
+  /** Project-relative path of the file or dir */
+  path: string;
+  /** Symbol name, for symbol requests */
+  name?: string;
+  /** Number of symbols of batched symbol requests */
+  symbols?: number;
+  /** Total length of the request messages */
+  inputChars: number;
+  /** Input tokens estimated from inputChars */
+  inputTokens: number;
+  /** Quoted price, undefined if the request wasn't quoted */
+  amountSats?: number;
+}
+
+/**
+ * Total length of the text content of the request messages
+ *
+ * @param request - The chat completion request
+ * @returns Number of characters
+ */
+export function getRequestChars(request: ChatCompletionCreateParams): number {
+  let chars = 0;
+  for (const message of request.messages) {
+    const content = (message as { content?: unknown }).content;
+    if (typeof content === "string") {
+      chars += content.length;
+    } else if (Array.isArray(content)) {
+      for (const part of content) {
+        if (part && typeof part.text === "string") chars += part.text.length;
+      }
+    }
+  }
+  return chars;
+}
+
+/**
+ * Estimates requests by quoting them with the indexer's backend,
+ * or locally by size if offline. Switches to local estimates for
+ * the rest of the run if quoting fails.
+ */
+export class CostEstimator {
+  private indexer: TypescriptIndexer;
+  private offline: boolean;
+
+  constructor(indexer: TypescriptIndexer, options: { offline?: boolean }) {
+    this.indexer = indexer;
+    this.offline = !!options.offline;
+  }
+
+  /**
+   * Estimate the cost of a request
+   *
+   * @param kind - Request kind
+   * @param path - Project-relative path of the file or dir
+   * @param request - The chat completion request
+   * @param name - Symbol name, for symbol requests
+   * @param symbols - Number of symbols, for batched symbol requests
+   * @returns The estimate
+   */
+  public async estimate(
+    kind: RequestEstimate["kind"],
+    path: string,
+    request: ChatCompletionCreateParams,
+    name?: string,
+    symbols?: number
+  ): Promise<RequestEstimate> {
+    const inputChars = getRequestChars(request);
+    const estimate: RequestEstimate = {
+      kind,
+      path,
+      name,
+      symbols,
+      inputChars,
+      inputTokens: Math.ceil(inputChars / CHARS_PER_TOKEN),
+    };
+
+    if (!this.offline) {
+      try {
+        const quote = await this.indexer.quote(request);
+        estimate.amountSats = quote.amountSats;
+        debugCli(`Quote for ${kind} ${name || path}: ${quote.amountSats} sats`);
+      } catch (error) {
+        debugError(
+          `Failed to get quote, estimating locally: ${(error as Error).message}`
+        );
+        this.offline = true;
+      }
+    }
+
+    return estimate;
+  }
+}
+
+/**
+ * Print the dry-run report: per-file breakdown and totals
+ *
+ * @param estimates - Estimates of all requests
+ * @param maxAmount - Max amount per symbol (or summary) request in sats
+ * @param budget - Max amount for the whole run in sats
+ */
+export function printCostReport(
+  estimates: RequestEstimate[],
+  maxAmount?: number,
+  budget?: number
+): void {
+  type Row = {
+    requests: number;
+    chars: number;
+    tokens: number;
+    sats: number;
+    unquoted: number;
+    overMax: number;
+  };
+  const newRow = (): Row => ({
+    requests: 0,
+    chars: 0,
+    tokens: 0,
+    sats: 0,
+    unquoted: 0,
+    overMax: 0,
+  });
+  const add = (row: Row, e: RequestEstimate) => {
+    row.requests++;
+    row.chars += e.inputChars;
+    row.tokens += e.inputTokens;
+    if (e.amountSats === undefined) row.unquoted++;
+    else row.sats += e.amountSats;
+    if (
+      maxAmount &&
+      e.amountSats !== undefined &&
+      e.amountSats > maxAmount * (e.symbols || 1)
+    )
+      row.overMax++;
+  };
+
+  // Dir requests are listed under the dir path with trailing "/"
+  const byPath = new Map<string, Row>();
+  const total = newRow();
+  for (const e of estimates) {
+    const key = e.kind === "dir" ? e.path.replace(/\/?$/, "/") : e.path;
+    if (!byPath.has(key)) byPath.set(key, newRow());
+    add(byPath.get(key)!, e);
+    add(total, e);
+  }
+
+  const formatSats = (row: Row) =>
+    row.unquoted === row.requests
+      ? "n/a"
+      : `${row.sats}${row.unquoted ? "+" : ""}`;
+
+  const header = ["path", "requests", "chars", "~tokens", "sats"];
+  const rows = Array.from(byPath.keys())
+    .sort()
+    .map((key) => {
+      const row = byPath.get(key)!;
+      return [
+        key,
+        String(row.requests),
+        String(row.chars),
+        String(row.tokens),
+        formatSats(row),
+      ];
+    });
+  rows.push([
+    "TOTAL",
+    String(total.requests),
+    String(total.chars),
+    String(total.tokens),
+    formatSats(total),
+  ]);
+
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i].length))
+  );
+  const format = (cells: string[]) =>
+    cells
+      .map((c, i) => (i ? c.padStart(widths[i]) : c.padEnd(widths[i])))
+      .join("  ")
+      .trimEnd();
+
+  console.log(format(header));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  for (const row of rows) console.log(format(row));
+
+  console.log("");
+  console.log(
+    `${total.requests} requests, ${total.chars} chars, ~${total.tokens} input tokens`
+  );
+  if (total.unquoted < total.requests) {
+    console.log(
+      `Projected cost: ${total.sats} sats${
+        total.unquoted ? ` (${total.unquoted} requests not quoted)` : ""
+      }`
+    );
+  } else {
+    console.log("Projected cost: unknown, requests were not quoted");
+  }
+  if (budget && total.sats > budget) {
+    console.log(`Projected cost exceeds --budget of ${budget} sats`);
+  }
+  if (maxAmount && total.unquoted < total.requests) {
+    console.log(
+      `${total.overMax} requests exceed --max-amount of ${maxAmount} sats per symbol and would fail`
+    );
+  }
+  console.log(
+    "Note: dir summary sizes exclude the file summaries that are generated during the run"
+  );
+}
@@ -0,0 +1,183 @@
+import fs from "fs";
+import path from "path";
+import { Symbol, StableSymbolId } from "../indexer/typescript/TypeScript.js";
+import { readFileAtCommit } from "./git.js";
+import { sliceLines } from "./incremental.js";
+import {
+  isSymbolEntry,
+  listDocumentedFiles,
+  readDocEntries,
+} from "./docsDir.js";
+
+export type DocStatus =
+  | "up-to-date"
+  | "body-changed"
+  | "signature-changed"
+  | "new"
+  | "orphaned";
+
+export const DOC_STATUSES: DocStatus[] = [
+  "up-to-date",
+  "body-changed",
+  "signature-changed",
+  "new",
+  "orphaned",
+];
+
+export interface SymbolDocStatus {
+  status: DocStatus;
+  file: string;
+  name: string;
+  kind: string;
+  /** Position of the current symbol, or of the documented one if orphaned */
+  start: string;
+  /** Hash of the current symbol, absent if orphaned */
+  hash?: string;
+  /** Hash of the documented symbol, absent if new */
+  docHash?: string;
+  /** Stable id of the documented symbol, absent if new */
+  docId?: StableSymbolId;
+}
+
+/**
+ * Flatten symbol trees returned by listRootSymbols
+ *
+ * @param roots - Root symbols with children
+ * @returns All symbols, parents before their children
+ */
+export function flattenSymbols(roots: Symbol[]): Symbol[] {
+  const result: Symbol[] = [];
+  const add = (list: Symbol[]) => {
+    for (const s of list) {
+      result.push(s);
+      if (s.children) add(s.children);
+    }
+  };
+  add(roots);
+  return result;
+}
+
+/**
+ * Key identifying a symbol regardless of its header, used to match docs of
+ * symbols whose signature changed (and thus the StableSymbolId.hash)
+ */
+function signatureFreeKey(id: StableSymbolId): string {
+  const chain = (id.containerChain || []).map((c) => c.name).join(".");
+  return `${id.file}:${id.kind}:${chain}:${id.name}:${id.overloadIndex || 0}`;
+}
+
+/**
+ * Compare the current workspace symbols against the docs in INDEXER_DIR.
+ *
+ * - up-to-date: same id hash and bodyHash
+ * - body-changed: same id hash (header unchanged) but different bodyHash
+ * - signature-changed: documented under an older id hash, matched by
+ *   file, kind, container and name
+ * - new: no docs for the symbol
+ * - orphaned: docs of a symbol that no longer exists
+ *
+ * Docs generated before bodyHash existed are checked by comparing the
+ * source lines at the commit recorded in commit.git, if any.
+ *
+ * @param workspacePath - Path to the workspace
+ * @param docsPath - Path to the workspace INDEXER_DIR
+ * @param symbols - Flat list of current workspace symbols
+ * @returns Status of every symbol and orphaned doc, ordered by file
+ */
+export function getDocStatus(
+  workspacePath: string,
+  docsPath: string,
+  symbols: Symbol[]
+): SymbolDocStatus[] {
+  const commitFile = path.join(docsPath, "commit.git");
+  const docsCommit = fs.existsSync(commitFile)
+    ? fs.readFileSync(commitFile, "utf8").trim()
+    : "";
+
+  // Documented symbols by id hash and by signature-free key
+  const docsByHash = new Map<string, any>();
+  const docsByKey = new Map<string, any>();
+  const docFiles = new Set<string>(listDocumentedFiles(docsPath));
+  for (const symbol of symbols) docFiles.add(symbol.id.file);
+  for (const file of docFiles) {
+    const entries = readDocEntries(path.join(docsPath, file + ".json"));
+    for (const entry of entries) {
+      if (!isSymbolEntry(entry) || !entry.id?.hash) continue;
+      docsByHash.set(entry.id.hash, entry);
+      docsByKey.set(signatureFreeKey(entry.id), entry);
+    }
+  }
+
+  // Source files at docsCommit, for docs without bodyHash
+  const oldContents = new Map<string, string>();
+  const isBodyChanged = (entry: any, symbol: Symbol) => {
+    if (entry.bodyHash && symbol.bodyHash)
+      return entry.bodyHash !== symbol.bodyHash;
+    if (!docsCommit) return false;
+
+    const file = symbol.id.file;
+    if (!oldContents.has(file)) {
+      oldContents.set(
+        file,
+        readFileAtCommit(workspacePath, docsCommit, file) || ""
+      );
+    }
+    const currentContent = fs.readFileSync(
+      path.join(workspacePath, file),
+      "utf8"
+    );
+    return (
+      sliceLines(oldContents.get(file)!, entry.start, entry.end) !==
+      sliceLines(currentContent, symbol.start, symbol.end)
+    );
+  };
+
+  const result: SymbolDocStatus[] = [];
+  const matched = new Set<string>();
+  const currentHashes = new Set(symbols.map((s) => s.id.hash));
+  for (const symbol of symbols) {
+    const item: SymbolDocStatus = {
+      status: "new",
+      file: symbol.id.file,
+      name: symbol.id.name,
+      kind: symbol.id.kind,
+      start: symbol.start,
+      hash: symbol.id.hash,
+    };
+
+    let entry = docsByHash.get(symbol.id.hash);
+    if (entry) {
+      item.status = isBodyChanged(entry, symbol)
+        ? "body-changed"
+        : "up-to-date";
+    } else {
+      entry = docsByKey.get(signatureFreeKey(symbol.id));
+      // Only if those docs aren't a perfect match for another symbol
+      if (entry && !currentHashes.has(entry.id.hash))
+        item.status = "signature-changed";
+      else entry = undefined;
+    }
+
+    if (entry) {
+      item.docHash = entry.id.hash;
+      item.docId = entry.id;
+      matched.add(entry.id.hash);
+    }
+    result.push(item);
+  }
+
+  for (const [hash, entry] of docsByHash) {
+    if (matched.has(hash)) continue;
+    result.push({
+      status: "orphaned",
+      file: entry.id.file,
+      name: entry.id.name,
+      kind: entry.id.kind,
+      start: entry.start,
+      docHash: hash,
+      docId: entry.id,
+    });
+  }
+
+  return result.sort((a, b) => a.file.localeCompare(b.file));
+}
@@ -0,0 +1,130 @@
+import fs from "fs";
+import path from "path";
+import { debugError } from "./debug.js";
+
+/**
+ * Helpers for the JSON-lines files stored in INDEXER_DIR.
+ *
+ * Every source file gets a `<file>.json` with one JSON object per line:
+ * symbol docs (no `type` or `type: "symbol"`), a file summary (`type: "file"`),
+ * and every directory gets a `summary.json` with a `type: "dir"` line.
+ * Docs that couldn't be generated are recorded as `type: "failed"` lines.
+ */
+
+/**
+ * Read all entries of a JSON-lines docs file
+ *
+ * @param filePath - Path to the docs file
+ * @returns Parsed entries, or empty array if the file doesn't exist
+ */
+export function readDocEntries(filePath: string): any[] {
+  if (!fs.existsSync(filePath)) return [];
+
+  const entries: any[] = [];
+  const lines = fs.readFileSync(filePath, "utf8").trim().split("\n");
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      debugError(
+        `Bad line in docs file ${filePath}: ${(error as Error).message}`
+      );
+    }
+  }
+  return entries;
+}
+
+/**
+ * Overwrite a docs file with the given entries
+ *
+ * @param filePath - Path to the docs file
+ * @param entries - Entries to write, one per line
+ */
+export function writeDocEntries(filePath: string, entries: any[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    entries.map((e) => JSON.stringify(e) + "\n").join("")
+  );
+}
+
+/**
+ * Remove entries from a docs file, it's only rewritten if something was removed
+ *
+ * @param filePath - Path to the docs file
+ * @param remove - Whether an entry should be removed
+ * @returns Number of removed entries
+ */
+export function removeDocEntries(
+  filePath: string,
+  remove: (entry: any) => boolean
+): number {
+  const entries = readDocEntries(filePath);
+  const kept = entries.filter((e) => !remove(e));
+  if (kept.length !== entries.length) writeDocEntries(filePath, kept);
+  return entries.length - kept.length;
+}
+
+/**
+ * Check if a docs entry describes a symbol (as opposed to file/dir summaries)
+ */
+export function isSymbolEntry(entry: { type?: string }): boolean {
+  return !entry.type || entry.type === "symbol";
+}
+
+/**
+ * List per-source-file docs files in INDEXER_DIR
+ *
+ * @param docsPath - Path to the INDEXER_DIR directory
+ * @returns Source file paths relative to docsPath (without the .json suffix)
+ */
+export function listDocumentedFiles(docsPath: string): string[] {
+  const result: string[] = [];
+
+  const scan = (dirPath: string, relativePath: string) => {
+    if (!fs.existsSync(dirPath)) return;
+    for (const item of fs.readdirSync(dirPath, { withFileTypes: true })) {
+      const itemRelativePath = relativePath
+        ? `${relativePath}/${item.name}`
+        : item.name;
+      if (item.isDirectory()) {
+        scan(path.join(dirPath, item.name), itemRelativePath);
+      } else if (
+        item.isFile() &&
+        item.name.endsWith(".json") &&
+        item.name !== "summary.json"
+      ) {
+        result.push(itemRelativePath.slice(0, -".json".length));
+      }
+    }
+  };
+
+  scan(docsPath, "");
+  return result.sort();
+}
+
+/**
+ * Create an entry recording that docs couldn't be generated
+ *
+ * @param kind - What the docs were for
+ * @param docPath - Workspace-relative path of the file or dir
+ * @param reason - Why generation failed
+ * @param extra - Additional fields, i.e. symbol id and position
+ * @returns The entry
+ */
+export function createFailedEntry(
+  kind: "symbol" | "file" | "dir",
+  docPath: string,
+  reason: string,
+  extra?: Record<string, any>
+) {
+  return {
+    type: "failed",
+    kind,
+    path: docPath,
+    ...extra,
+    reason,
+    time: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import { debugError } from "./debug.js";
+
+/**
+ * Appends docs entries to the JSON-lines docs files in a fixed order.
+ *
+ * Work on a docs file is split into numbered parts (batches of symbols),
+ * which may finish in any order when processed in parallel. Entries of
+ * part N are only written after parts 0..N-1 were written or skipped,
+ * so the docs file content doesn't depend on the number of threads.
+ * All writes of a file go through this writer, one file append at a time.
+ */
+export class OrderedDocsWriter {
+  // Next part number to write, per docs file
+  private next = new Map<string, number>();
+  // Finished parts waiting for the previous ones, per docs file
+  private pending = new Map<string, Map<number, any[]>>();
+
+  /**
+   * Submit entries of a part of the docs file
+   *
+   * @param docsFile - Path to the docs file
+   * @param part - Part number, starting at 0 for every file
+   * @param entries - Entries of the part, empty if nothing should be written
+   */
+  write(docsFile: string, part: number, entries: any[]): void {
+    let parts = this.pending.get(docsFile);
+    if (!parts) {
+      parts = new Map();
+      this.pending.set(docsFile, parts);
+    }
+    if (parts.has(part) || part < (this.next.get(docsFile) || 0))
+      throw new Error(`Part ${part} of ${docsFile} was already written`);
+    parts.set(part, entries);
+
+    this.flush(docsFile, parts);
+  }
+
+  /**
+   * Skip a part that produced no entries
+   */
+  skip(docsFile: string, part: number): void {
+    this.write(docsFile, part, []);
+  }
+
+  /**
+   * Number of parts waiting for earlier parts, should be 0 when all
+   * the work is done
+   */
+  pendingParts(): number {
+    let count = 0;
+    for (const parts of this.pending.values()) count += parts.size;
+    return count;
+  }
+
+  private flush(docsFile: string, parts: Map<number, any[]>) {
+    let next = this.next.get(docsFile) || 0;
+    while (parts.has(next)) {
+      const entries = parts.get(next)!;
+      parts.delete(next);
+      next++;
+      this.next.set(docsFile, next);
+
+      if (!entries.length) continue;
+      try {
+        fs.mkdirSync(path.dirname(docsFile), { recursive: true });
+        fs.appendFileSync(
+          docsFile,
+          entries.map((e) => JSON.stringify(e) + "\n").join("")
+        );
+      } catch (error) {
+        debugError(
+          `Failed to write docs to ${docsFile}: ${(error as Error).message}`
+        );
+        throw error;
+      }
+    }
+    if (!parts.size) this.pending.delete(docsFile);
+  }
+}
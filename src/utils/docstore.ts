@@ -13,6 +13,10 @@ import {
   isFunctionLike,
 } from "../indexer/typescript/utils.js";
 import ts from "typescript";
+import {
+  ReferenceIndex,
+  formatSymbolRef,
+} from "../indexer/typescript/references.js";
 
 /**
  * Format git link based on origin and file information
@@ -20,13 +24,15 @@ import ts from "typescript";
  * @param commitHash - Commit hash
  * @param filePath - Path to the file relative to project root
  * @param line - Optional line number for symbols
+ * @param anchor - Optional heading anchor for rendered Markdown, used instead of the line
  * @returns Formatted git link
  */
 export function formatGitLink(
   origin: string,
   commitHash: string,
   filePath: string,
-  line?: number
+  line?: number,
+  anchor?: string
 ): string {
   // Clean up the origin URL - remove .git suffix and convert SSH to HTTPS
   let cleanOrigin = origin;
@@ -44,10 +50,12 @@ export function formatGitLink(
   if (cleanOrigin.includes("gitlab.com") || cleanOrigin.includes("gitlab.")) {
     // GitLab format: <origin>/-/blob/<commitHash>/<filePath>#L<line>
     const baseUrl = `${cleanOrigin}/-/blob/${commitHash}/${filePath}`;
+    if (anchor) return `${baseUrl}#${anchor}`;
     return line ? `${baseUrl}#L${line}` : baseUrl;
   } else {
     // GitHub format (default): <origin>/blob/<commitHash>/<filePath>#L<line>
     const baseUrl = `${cleanOrigin}/blob/${commitHash}/${filePath}`;
+    if (anchor) return `${baseUrl}#${anchor}`;
     return line ? `${baseUrl}#L${line}` : baseUrl;
   }
 }
@@ -58,17 +66,56 @@ export type DocSymbol = Symbol & {
   details: string;
 };
 
-export function symbolToDoc(
+/**
+ * Reference from a symbol doc to another symbol
+ */
+export type SymbolDocRef = {
+  name: string;
+  /** StableSymbolId.hash of the referenced symbol, if it could be built */
+  hash?: string;
+};
+
+/**
+ * Contents of a symbol doc before they're formatted as text by symbolToDoc
+ */
+export type SymbolDocParts = {
+  /** Doc id, prefixed with the workspace in monorepos */
+  id: string;
+  /** Path of the file relative to the project root */
+  file: string;
+  startLine: number;
+  endLine: number;
+  commit?: string;
+  link?: string;
+  /** Declaration (public interface for classes) wrapped in its parents' headers */
+  declaration: string;
+  summary: string;
+  details: string;
+  /** Full code of the symbol, if it differs from the declaration */
+  code?: string;
+  related: SymbolDocRef[];
+  calls: StableSymbolId[];
+  calledBy: StableSymbolId[];
+  implementedBy: StableSymbolId[];
+  /** Import statement and access expression of every path to the symbol, best first */
+  usage: string[];
+  /** Hashes of the related and referencing symbols */
+  relatedIds: string[];
+};
+
+/**
+ * Collect the contents of a symbol doc: declaration, generated docs,
+ * related symbols, cross references, import examples and git link
+ */
+export function describeSymbol(
   symbolInfo: DocSymbol,
   symbolInfos: DocSymbol[],
   typescript: TypeScript,
   commitHash?: string,
   workspaceRelativePath?: string,
-  gitOrigin?: string
-): Doc {
-  // Create timestamps (current time in seconds)
-  const timestamp = Math.floor(Date.now() / 1000);
-
+  gitOrigin?: string,
+  references?: ReferenceIndex
+): SymbolDocParts {
   // Backward compat
   if (!symbolInfo.id.hash)
     symbolInfo.id.hash = createSymbolIdHash(symbolInfo.id);
@@ -80,33 +127,26 @@ export function symbolToDoc(
   const { symbol, decl } = symDecl;
 
   // Related symbols
-  const related = typescript.related(symbol);
+  const related = typescript.related(symbol).map((r) => ({
+    name: r.symbol.name,
+    hash: typescript.buildStableId(r.symbol)?.hash,
+  }));
   // Import paths
   const paths = typescript.pathsToRanked(symbol);
+  // Call graph and implementations
+  const refs = references?.get(symbolInfo.id.hash);
 
-  // Doc metadata
-  let metadata = '';
-  if (workspaceRelativePath) {
-    metadata += `workspace: ${workspaceRelativePath}\n`;
-  }
-  
   // Make file path relative to project root instead of workspace
   const filePathFromRoot = workspaceRelativePath
     ? path.posix.join(workspaceRelativePath, symbolInfo.id.file)
     : symbolInfo.id.file;
-  
-  metadata += `file: ${filePathFromRoot}\n`;
-  metadata += `lines: ${symbolInfo.start.split(":")[0]}:${symbolInfo.end.split(":")[0]}\n`;
-  metadata += `id: ${symbolInfo.id.hash}\n`;
-  if (commitHash) {
-    metadata += `commit: ${commitHash}\n`;
-  }
-  if (gitOrigin && commitHash) {
-    // For symbols, include line number in the git link
-    const startLine = parseInt(symbolInfo.start.split(":")[0]);
-    const gitLink = formatGitLink(gitOrigin, commitHash, filePathFromRoot, startLine);
-    metadata += `link: ${gitLink}\n`;
-  }
+
+  // For symbols, include line number in the git link
+  const startLine = parseInt(symbolInfo.start.split(":")[0]);
+  const link =
+    gitOrigin && commitHash
+      ? formatGitLink(gitOrigin, commitHash, filePathFromRoot, startLine)
+      : undefined;
 
   // Prefix/suffix for 'interface'
   let parentPrefix = "";
@@ -138,46 +178,126 @@ export function symbolToDoc(
     ? header
     : body;
 
+  // Format import examples
+  const usage = paths.map((p) => {
+    let line = typescript.makeImportStatement(
+      p.root,
+      typescript.getPackageJson()?.name || "<package>"
+    );
+    if (p.steps.length) line += "\n" + (p.requiresNew ? "new " : "") + p.pretty;
+    return line;
+  });
+
+  // Modify doc ID for monorepos
+  const docId = workspaceRelativePath
+    ? `${workspaceRelativePath}:${symbolInfo.id.hash}`
+    : symbolInfo.id.hash;
+
+  return {
+    id: docId,
+    file: filePathFromRoot,
+    startLine,
+    endLine: parseInt(symbolInfo.end.split(":")[0]),
+    commit: commitHash,
+    link,
+    declaration: `${parentPrefix}${interfaceString}${parentSuffix}`,
+    summary: symbolInfo.summary,
+    details: symbolInfo.details,
+    code: body !== interfaceString ? body : undefined,
+    related,
+    calls: refs?.calls || [],
+    calledBy: refs?.calledBy || [],
+    implementedBy: refs?.implementedBy || [],
+    usage,
+    relatedIds: [
+      ...new Set([
+        ...related.filter((r) => !!r.hash).map((r) => r.hash!),
+        ...(refs
+          ? [...refs.calls, ...refs.calledBy, ...refs.implementedBy].map(
+              (id) => id.hash
+            )
+          : []),
+      ]),
+    ],
+  };
+}
+
+export function symbolToDoc(
+  symbolInfo: DocSymbol,
+  symbolInfos: DocSymbol[],
+  typescript: TypeScript,
+  commitHash?: string,
+  workspaceRelativePath?: string,
+  gitOrigin?: string,
+  references?: ReferenceIndex,
+  includeCode: boolean = true
+): Doc {
+  // Create timestamps (current time in seconds)
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const parts = describeSymbol(
+    symbolInfo,
+    symbolInfos,
+    typescript,
+    commitHash,
+    workspaceRelativePath,
+    gitOrigin,
+    references
+  );
+
+  // Doc metadata
+  let metadata = '';
+  if (workspaceRelativePath) {
+    metadata += `workspace: ${workspaceRelativePath}\n`;
+  }
+  metadata += `file: ${parts.file}\n`;
+  metadata += `lines: ${parts.startLine}:${parts.endLine}\n`;
+  metadata += `id: ${symbolInfo.id.hash}\n`;
+  if (parts.commit) {
+    metadata += `commit: ${parts.commit}\n`;
+  }
+  if (parts.link) {
+    metadata += `link: ${parts.link}\n`;
+  }
+
   // The doc content: the interface with prefix/suffix and summary docs
   let content = `
 declaration:
-${parentPrefix}${interfaceString}${parentSuffix}
+${parts.declaration}
 
 summary:
-${symbolInfo.summary}
+${parts.summary}
 `.trim();
 
   // Details if exist
-  if (symbolInfo.details) content += `\n\ndetails:\n${symbolInfo.details}`;
+  if (parts.details) content += `\n\ndetails:\n${parts.details}`;
 
   // List of related symbols just for readability
-  if (related.length)
-    content += `\n\nrelated: ${related.map((r) => r.symbol.name).join(",")}`;
+  if (parts.related.length)
+    content += `\n\nrelated: ${parts.related.map((r) => r.name).join(",")}`;
+
+  // Cross references, to answer "where is X used"
+  if (parts.calls.length)
+    content += `\n\ncalls: ${parts.calls.map(formatSymbolRef).join(", ")}`;
+  if (parts.calledBy.length)
+    content += `\n\ncalled_by: ${parts.calledBy.map(formatSymbolRef).join(", ")}`;
+  if (parts.implementedBy.length)
+    content += `\n\nimplemented_by: ${parts.implementedBy
+      .map(formatSymbolRef)
+      .join(", ")}`;
 
   // Full body if needed
-  if (body !== interfaceString) {
-    content += `\n\ncode:\n${body}`;
+  if (includeCode && parts.code) {
+    content += `\n\ncode:\n${parts.code}`;
   }
 
   // Format import examples
-  let usage = "";
-  for (const p of paths) {
-    let line =
-      typescript.makeImportStatement(
-        p.root,
-        typescript.getPackageJson()?.name || "<package>"
-      ) + "\n";
-    if (p.steps.length) line += (p.requiresNew ? "new " : "") + p.pretty + "\n";
-    usage += line;
-  }
+  const usage = parts.usage.map((line) => line + "\n").join("");
   if (usage) content += `\n\nimport/access examples:\n${usage}`;
 
   // Create Doc object
-  // Modify doc ID for monorepos
-  const docId = workspaceRelativePath ? `${workspaceRelativePath}:${symbolInfo.id.hash}` : symbolInfo.id.hash;
-  
   const doc: Doc = {
-    id: docId,
+    id: parts.id,
     docstore_id: "", // This will be set when the document is added to a docstore
     timestamp,
     created_at: timestamp, // Same as timestamp for new documents
@@ -185,10 +305,7 @@ ${symbolInfo.summary}
     data: content, // Use the markdown string directly as the data field
     metadata,
     embeddings: [],
-    related_ids: related
-      .map((r) => typescript.buildStableId(r.symbol))
-      .filter((id) => !!id)
-      .map((id) => id.hash),
+    related_ids: parts.relatedIds,
   };
 
   return doc;
@@ -0,0 +1,141 @@
+import fs from "node:fs";
+import { parse as parseYaml } from "yaml";
+import { SearchIndex, SearchResult } from "./searchIndex.js";
+
+/**
+ * Question of a retrieval evaluation set
+ */
+export type EvalQuestion = {
+  question: string;
+  /**
+   * Docs that should be retrieved: symbol hashes, project-relative file paths
+   * (matching symbol, file and Markdown section docs of the file) or doc IDs
+   */
+  expected: string[];
+};
+
+export type QuestionResult = EvalQuestion & {
+  /** 1-based rank of every expected entry, undefined if not in the top max(k) */
+  ranks: (number | undefined)[];
+  /** 1-based rank of the first relevant doc, undefined if none in the top max(k) */
+  firstRank?: number;
+  /** IDs of the top retrieved docs */
+  top: string[];
+};
+
+export type EvalReport = {
+  questions: number;
+  /** Mean recall of the expected entries at every k */
+  recall: Record<number, number>;
+  /** Mean reciprocal rank of the first relevant doc within max(k) */
+  mrr: number;
+  maxK: number;
+  results: QuestionResult[];
+};
+
+/**
+ * Load evaluation questions from a JSON or YAML file, either a list of
+ * questions or an object with a `questions` list
+ *
+ * @param filePath - Path to a .json, .yaml or .yml file
+ * @returns Questions
+ * @throws Error if the file is invalid
+ */
+export function loadEvalQuestions(filePath: string): EvalQuestion[] {
+  const content = fs.readFileSync(filePath, "utf8");
+  let parsed: any;
+  try {
+    parsed = /\.ya?ml$/i.test(filePath)
+      ? parseYaml(content)
+      : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${filePath}: ${(error as Error).message}`);
+  }
+  const list = Array.isArray(parsed) ? parsed : parsed?.questions;
+  if (!Array.isArray(list))
+    throw new Error(`${filePath} must contain a list of questions`);
+
+  return list.map((q: any, i: number) => {
+    const expected =
+      typeof q?.expected === "string" ? [q.expected] : q?.expected;
+    if (
+      typeof q?.question !== "string" ||
+      !Array.isArray(expected) ||
+      !expected.length
+    )
+      throw new Error(
+        `Question ${i + 1} of ${filePath} must have 'question' and a non-empty 'expected' list`
+      );
+    return { question: q.question, expected: expected.map(String) };
+  });
+}
+
+/**
+ * Check if a retrieved doc is the expected one
+ *
+ * @param result - Retrieved doc
+ * @param expected - Symbol hash, project-relative file path or doc ID
+ */
+export function matchesExpected(
+  result: SearchResult,
+  expected: string
+): boolean {
+  const e = expected.replace(/^\.\//, "");
+  return (
+    result.id === e ||
+    result.id.endsWith(`:${e}`) ||
+    result.metadata.id === e ||
+    result.metadata.file === e ||
+    result.metadata.path === e
+  );
+}
+
+/**
+ * Run the questions against the index and compute recall@k and MRR
+ *
+ * @param index - Search index of the prepared docs
+ * @param questions - Evaluation questions
+ * @param ks - Cutoffs to compute recall at
+ * @returns The report
+ */
+export function evaluateRetrieval(
+  index: SearchIndex,
+  questions: EvalQuestion[],
+  ks: number[]
+): EvalReport {
+  const maxK = Math.max(...ks);
+  const recall: Record<number, number> = {};
+  for (const k of ks) recall[k] = 0;
+  let mrr = 0;
+
+  const results = questions.map((q) => {
+    const retrieved = index.search(q.question, { limit: maxK });
+    const ranks = q.expected.map((e) => {
+      const rank = retrieved.findIndex((r) => matchesExpected(r, e));
+      return rank < 0 ? undefined : rank + 1;
+    });
+    const found = ranks.filter((r): r is number => r !== undefined);
+    const firstRank = found.length ? Math.min(...found) : undefined;
+
+    for (const k of ks)
+      recall[k] += found.filter((r) => r <= k).length / q.expected.length;
+    if (firstRank) mrr += 1 / firstRank;
+
+    return {
+      ...q,
+      ranks,
+      firstRank,
+      top: retrieved.map((r) => r.id),
+    };
+  });
+
+  const count = questions.length || 1;
+  for (const k of ks) recall[k] /= count;
+  return {
+    questions: questions.length,
+    recall,
+    mrr: mrr / count,
+    maxK,
+    results,
+  };
+}
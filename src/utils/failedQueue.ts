@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+import { readDocEntries, writeDocEntries } from "./docsDir.js";
+
+/** Name of the queue of failed docs in INDEXER_DIR */
+export const FAILED_FILE = "failed.jsonl";
+
+/**
+ * Docs that 'generate' couldn't produce, to be retried with --retry-failed
+ */
+export interface FailedItem {
+  /** ISO timestamp of the failure */
+  time: string;
+  kind: "symbol" | "file" | "dir";
+  /** Workspace-relative path of the file, or dir path with trailing "/" */
+  path: string;
+  /** Symbol hash and name, for symbols */
+  hash?: string;
+  name?: string;
+  reason: string;
+}
+
+/**
+ * Add an item to the failed queue
+ *
+ * @param docsPath - Path to the INDEXER_DIR
+ * @param item - Failed item, time is set automatically
+ */
+export function appendFailed(
+  docsPath: string,
+  item: Omit<FailedItem, "time">
+): void {
+  fs.mkdirSync(docsPath, { recursive: true });
+  fs.appendFileSync(
+    path.join(docsPath, FAILED_FILE),
+    JSON.stringify({ time: new Date().toISOString(), ...item }) + "\n"
+  );
+}
+
+/**
+ * Read the failed queue
+ *
+ * @param docsPath - Path to the INDEXER_DIR
+ * @returns Failed items, or empty array if there is no queue
+ */
+export function readFailed(docsPath: string): FailedItem[] {
+  return readDocEntries(path.join(docsPath, FAILED_FILE)) as FailedItem[];
+}
+
+/**
+ * Remove the failed queue, items that fail again are re-added
+ *
+ * @param docsPath - Path to the INDEXER_DIR
+ */
+export function clearFailed(docsPath: string): void {
+  fs.rmSync(path.join(docsPath, FAILED_FILE), { force: true });
+}
+
+/**
+ * Drop the `type: "failed"` records of the given items from a docs file
+ *
+ * @param docsFile - Path to the docs file
+ * @param items - Items of this docs file that are about to be retried
+ */
+export function dropFailedRecords(docsFile: string, items: FailedItem[]) {
+  if (!fs.existsSync(docsFile)) return;
+  const hashes = new Set(items.map((i) => i.hash).filter((h) => !!h));
+  const entries = readDocEntries(docsFile);
+  const kept = entries.filter(
+    (e) =>
+      e.type !== "failed" ||
+      !(
+        (e.kind === "symbol" && hashes.has(e.id?.hash)) ||
+        (e.kind !== "symbol" && items.some((i) => i.kind === e.kind))
+      )
+  );
+  if (kept.length !== entries.length) writeDocEntries(docsFile, kept);
+}
+
+/**
+ * Queued items that a run documents again. Each one is taken off the queue,
+ * with its `type: "failed"` record, only once it's documented or queued
+ * again, so the items a stopped run didn't get to stay queued.
+ */
+export class FailedRetries {
+  private docsPath: string;
+  private pending: FailedItem[];
+
+  /**
+   * @param docsPath - Path to the INDEXER_DIR
+   * @param items - Queued items that this run documents again
+   */
+  constructor(docsPath: string, items: FailedItem[]) {
+    this.docsPath = docsPath;
+    this.pending = [...items];
+  }
+
+  /**
+   * Take the matching items off the queue and drop their failure records,
+   * call right before writing their new docs or queuing them again
+   *
+   * @param match - Whether an item is resolved
+   */
+  resolve(match: (item: FailedItem) => boolean): void {
+    const resolved = this.pending.filter(match);
+    if (!resolved.length) return;
+    this.pending = this.pending.filter((item) => !resolved.includes(item));
+
+    const byDocsFile = new Map<string, FailedItem[]>();
+    for (const item of resolved) {
+      const docsFile =
+        item.kind === "dir"
+          ? path.join(this.docsPath, item.path, "summary.json")
+          : path.join(this.docsPath, item.path + ".json");
+      byDocsFile.set(docsFile, [...(byDocsFile.get(docsFile) || []), item]);
+    }
+    for (const [docsFile, items] of byDocsFile)
+      dropFailedRecords(docsFile, items);
+
+    // Items queued again during this run are new lines, only
+    // the lines of the resolved items are removed
+    const keys = new Set(resolved.map(itemKey));
+    const queue = readFailed(this.docsPath);
+    const rest = queue.filter((item) => !keys.has(itemKey(item)));
+    if (rest.length === queue.length) return;
+    if (rest.length)
+      writeDocEntries(path.join(this.docsPath, FAILED_FILE), rest);
+    else clearFailed(this.docsPath);
+  }
+}
+
+function itemKey(item: FailedItem): string {
+  return JSON.stringify([item.time, item.kind, item.path, item.hash]);
+}
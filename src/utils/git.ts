@@ -0,0 +1,173 @@
+import { execFileSync } from "child_process";
+import { debugError } from "./debug.js";
+
+export interface ChangedFile {
+  /** Git status letter: A (added), M (modified), D (deleted), T (type change), etc. */
+  status: string;
+  /** Path relative to the directory the diff was run in (posix separators) */
+  path: string;
+}
+
+/**
+ * Resolve a git ref (branch, tag, short hash) to a full commit hash
+ *
+ * @param projectPath - Path inside the git repository
+ * @param ref - Ref to resolve
+ * @returns Full commit hash
+ * @throws Error if the ref does not name a commit
+ */
+export function resolveCommit(projectPath: string, ref: string): string {
+  try {
+    return execFileSync(
+      "git",
+      ["rev-parse", "--verify", "--end-of-options", `${ref}^{commit}`],
+      {
+        cwd: projectPath,
+        encoding: "utf8",
+        stdio: ["ignore", "pipe", "ignore"],
+      }
+    ).trim();
+  } catch (error) {
+    throw new Error(`Unknown git commit '${ref}' in ${projectPath}`);
+  }
+}
+
+/**
+ * Get the git remote origin URL
+ * @param projectPath - Path to the project root
+ * @returns Git remote origin URL or undefined if not available
+ */
+export function getGitRemoteOrigin(projectPath: string): string | undefined {
+  try {
+    const result = execFileSync("git", ["remote", "get-url", "origin"], {
+      cwd: projectPath,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+    return result.trim();
+  } catch (error) {
+    debugError(`Failed to get git remote origin: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+/**
+ * List files changed between two commits, limited to the given directory.
+ * Renames are reported as a deletion plus an addition.
+ *
+ * @param projectPath - Directory to diff (paths are returned relative to it)
+ * @param fromCommit - Base commit
+ * @param toCommit - Target commit (default: HEAD)
+ * @returns Array of changed files
+ */
+export function getChangedFiles(
+  projectPath: string,
+  fromCommit: string,
+  toCommit: string = "HEAD"
+): ChangedFile[] {
+  const output = execFileSync(
+    "git",
+    [
+      "diff",
+      "--name-status",
+      "--no-renames",
+      "--relative",
+      fromCommit,
+      toCommit,
+      "--",
+    ],
+    {
+      cwd: projectPath,
+      encoding: "utf8",
+      maxBuffer: 64 * 1024 * 1024,
+    }
+  );
+
+  return output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => !!line)
+    .map((line) => {
+      const [status, ...rest] = line.split("\t");
+      return { status: status.charAt(0), path: rest.join("\t") };
+    });
+}
+
+/**
+ * Read the content of a file as it was at a given commit
+ *
+ * @param projectPath - Directory the file path is relative to
+ * @param commit - Commit to read from
+ * @param filePath - File path relative to projectPath
+ * @returns File content, or undefined if the file did not exist at that commit
+ */
+export function readFileAtCommit(
+  projectPath: string,
+  commit: string,
+  filePath: string
+): string | undefined {
+  try {
+    return execFileSync("git", ["show", `${commit}:./${filePath}`], {
+      cwd: projectPath,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  } catch (error) {
+    debugError(
+      `Failed to read ${filePath} at ${commit}: ${(error as Error).message}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Get the top-level directory of the git repository
+ *
+ * @param projectPath - Path inside the git repository
+ * @returns Absolute path to the repository root
+ */
+export function getRepoRoot(projectPath: string): string {
+  return execFileSync("git", ["rev-parse", "--show-toplevel"], {
+    cwd: projectPath,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "ignore"],
+  }).trim();
+}
+
+/**
+ * Check out a commit into a new detached worktree
+ *
+ * @param projectPath - Path inside the git repository
+ * @param commit - Commit to check out
+ * @param worktreePath - Directory for the worktree, must not exist
+ */
+export function addWorktree(
+  projectPath: string,
+  commit: string,
+  worktreePath: string
+): void {
+  execFileSync("git", ["worktree", "add", "--detach", worktreePath, commit], {
+    cwd: projectPath,
+    stdio: ["ignore", "ignore", "pipe"],
+  });
+}
+
+/**
+ * Remove a worktree created by addWorktree, errors are only logged
+ *
+ * @param projectPath - Path inside the git repository
+ * @param worktreePath - Directory of the worktree
+ */
+export function removeWorktree(projectPath: string, worktreePath: string): void {
+  try {
+    execFileSync("git", ["worktree", "remove", "--force", worktreePath], {
+      cwd: projectPath,
+      stdio: ["ignore", "ignore", "pipe"],
+    });
+  } catch (error) {
+    debugError(
+      `Failed to remove worktree ${worktreePath}: ${(error as Error).message}`
+    );
+  }
+}
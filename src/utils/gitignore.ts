@@ -0,0 +1,213 @@
+import fs from "node:fs";
+import path from "node:path";
+import { debugError } from "./debug.js";
+import { globToRegExp } from "./glob.js";
+
+/** Extra ignore file with gitignore syntax, read next to every .gitignore */
+export const ASKEXPERTS_IGNORE_FILE = ".askexpertsignore";
+
+// Never listed or documented, whatever the ignore files say
+const ALWAYS_IGNORED = new Set(["node_modules", ".askexperts", ".git"]);
+
+type IgnoreRule = {
+  /** Path of the dir of the ignore file, relative to the repo root, "" for root */
+  base: string;
+  negate: boolean;
+  dirOnly: boolean;
+  re: RegExp;
+};
+
+/**
+ * Parse lines of a gitignore file into rules
+ *
+ * @param content - File content
+ * @param base - Repo-relative posix dir the file applies to
+ * @returns The rules, in file order
+ */
+export function parseIgnoreRules(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (let line of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    line = line.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    let negate = false;
+    if (line.startsWith("!")) {
+      negate = true;
+      line = line.slice(1);
+    } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.slice(1);
+    }
+
+    let dirOnly = false;
+    if (line.endsWith("/")) {
+      dirOnly = true;
+      line = line.slice(0, -1);
+    }
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the file's dir,
+    // braces have no special meaning in gitignore
+    const anchored = line.includes("/");
+    const pattern = line.replace(/[{}]/g, "\\$&");
+    rules.push({
+      base,
+      negate,
+      dirOnly,
+      re: globToRegExp(
+        anchored ? "/" + pattern.replace(/^\//, "") : pattern
+      ),
+    });
+  }
+  return rules;
+}
+
+/**
+ * Find the root of the git work tree containing the dir
+ */
+function findRepoRoot(dir: string): string | undefined {
+  for (let d = dir; ; d = path.dirname(d)) {
+    if (fs.existsSync(path.join(d, ".git"))) return d;
+    if (path.dirname(d) === d) return undefined;
+  }
+}
+
+/**
+ * Path of info/exclude of the repo, .git may be a file in worktrees/submodules
+ */
+function findExcludeFile(repoRoot: string): string | undefined {
+  const dotGit = path.join(repoRoot, ".git");
+  try {
+    let gitDir = dotGit;
+    if (fs.statSync(dotGit).isFile()) {
+      const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(dotGit, "utf8"));
+      if (!match) return undefined;
+      gitDir = path.resolve(repoRoot, match[1].trim());
+      // Linked worktrees share info/ with the main repo
+      const commonDir = path.join(gitDir, "commondir");
+      if (fs.existsSync(commonDir))
+        gitDir = path.resolve(gitDir, fs.readFileSync(commonDir, "utf8").trim());
+    }
+    return path.join(gitDir, "info", "exclude");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Gitignore matcher following git semantics:
+ * - .git/info/exclude, then .gitignore files from the repo root down to the
+ *   file's dir, deeper files take precedence, the last matching rule wins
+ * - `!` negation, `**`, patterns anchored by `/`, dir-only patterns ending with `/`
+ * - files inside an ignored dir can't be re-included
+ * - .askexpertsignore files next to .gitignore files add rules with the same syntax
+ * - node_modules, .git and .askexperts are always ignored
+ *
+ * Ignore files are read lazily and cached, create one matcher per command run.
+ */
+export class IgnoreMatcher {
+  private repoRoot: string;
+  private rulesByDir = new Map<string, IgnoreRule[]>();
+  private excludeRules: IgnoreRule[] = [];
+  private dirCache = new Map<string, boolean>();
+
+  /**
+   * @param projectDir - Dir inside the repo, its parent dirs up to the repo
+   *   root contribute their ignore files too. Without a repo it's the root.
+   */
+  constructor(projectDir: string) {
+    const dir = path.resolve(projectDir);
+    this.repoRoot = findRepoRoot(dir) || dir;
+
+    const excludeFile = findExcludeFile(this.repoRoot);
+    if (excludeFile && fs.existsSync(excludeFile))
+      this.excludeRules = parseIgnoreRules(
+        fs.readFileSync(excludeFile, "utf8"),
+        ""
+      );
+  }
+
+  /**
+   * Check if a file or dir is ignored
+   *
+   * @param absPath - Absolute path
+   * @param isDir - Whether the path is a dir, checked on disk if not given
+   * @returns True if ignored, paths outside the repo are never ignored
+   */
+  isIgnored(absPath: string, isDir?: boolean): boolean {
+    const rel = path
+      .relative(this.repoRoot, path.resolve(absPath))
+      .split(path.sep)
+      .join("/");
+    if (!rel || rel.startsWith("../") || rel === ".." || path.isAbsolute(rel))
+      return false;
+
+    // Files of ignored dirs are ignored, whatever the rules say about them
+    const segments = rel.split("/");
+    for (let i = 1; i < segments.length; i++) {
+      if (this.isDirIgnored(segments.slice(0, i).join("/"))) return true;
+    }
+
+    if (isDir === undefined) {
+      try {
+        isDir = fs.statSync(absPath).isDirectory();
+      } catch {
+        isDir = false;
+      }
+    }
+    return isDir ? this.isDirIgnored(rel) : this.matches(rel, false);
+  }
+
+  private isDirIgnored(rel: string): boolean {
+    let result = this.dirCache.get(rel);
+    if (result === undefined) {
+      result = this.matches(rel, true);
+      this.dirCache.set(rel, result);
+    }
+    return result;
+  }
+
+  /**
+   * Match the path against the rules, not looking at its parent dirs
+   */
+  private matches(rel: string, isDir: boolean): boolean {
+    const name = rel.slice(rel.lastIndexOf("/") + 1);
+    if (ALWAYS_IGNORED.has(name)) return true;
+
+    // Rules of the dirs from the root down to the parent of the path
+    const segments = rel.split("/");
+    const rules = [...this.excludeRules];
+    for (let i = 0; i < segments.length; i++) {
+      rules.push(...this.loadRules(segments.slice(0, i).join("/")));
+    }
+
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.negate !== ignored) continue; // can't change the result
+      if (rule.dirOnly && !isDir) continue;
+      const relToBase = rule.base ? rel.slice(rule.base.length + 1) : rel;
+      if (rule.re.test(relToBase)) ignored = !rule.negate;
+    }
+    return ignored;
+  }
+
+  private loadRules(dir: string): IgnoreRule[] {
+    let rules = this.rulesByDir.get(dir);
+    if (rules) return rules;
+
+    rules = [];
+    for (const file of [".gitignore", ASKEXPERTS_IGNORE_FILE]) {
+      const filePath = path.join(this.repoRoot, dir, file);
+      if (!fs.existsSync(filePath)) continue;
+      try {
+        rules.push(...parseIgnoreRules(fs.readFileSync(filePath, "utf8"), dir));
+      } catch (error) {
+        debugError(
+          `Failed to read ignore file ${filePath}: ${(error as Error).message}`
+        );
+      }
+    }
+    this.rulesByDir.set(dir, rules);
+    return rules;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Glob patterns matched against project-relative posix paths:
+ * - `*` matches any chars except "/", `?` matches a single char except "/"
+ * - `**` as a whole path segment matches any number of directories
+ * - `[abc]`, `[a-z]`, `[!abc]`/`[^abc]` character classes
+ * - `{a,b}` brace expansion, may be nested
+ * - patterns without "/" match the file name at any depth, like `*.md`
+ * - a leading "./" or "/" anchors the pattern to the base dir
+ */
+
+/**
+ * Expand braces of a glob pattern, "src/{a,b{c,d}}.ts" gives
+ * ["src/a.ts", "src/bc.ts", "src/bd.ts"]
+ *
+ * @param pattern - Glob pattern
+ * @returns Patterns without braces
+ */
+export function expandBraces(pattern: string): string[] {
+  // Find the first top-level "{...}" with a comma inside
+  let depth = 0;
+  let start = -1;
+  const commas: number[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") {
+      i++;
+    } else if (c === "{") {
+      if (depth === 0) {
+        start = i;
+        commas.length = 0;
+      }
+      depth++;
+    } else if (c === "," && depth === 1) {
+      commas.push(i);
+    } else if (c === "}" && depth > 0) {
+      depth--;
+      if (depth === 0 && commas.length) {
+        const prefix = pattern.slice(0, start);
+        const suffix = pattern.slice(i + 1);
+        const bounds = [start, ...commas, i];
+        const result: string[] = [];
+        for (let j = 0; j < bounds.length - 1; j++) {
+          const option = pattern.slice(bounds[j] + 1, bounds[j + 1]);
+          result.push(...expandBraces(prefix + option + suffix));
+        }
+        return result;
+      }
+    }
+  }
+  return [pattern];
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.+^${}()|[\]\\*?]/g, "\\$&");
+}
+
+/**
+ * Convert a single path segment (no "/", no braces) to a regexp source
+ */
+function segmentToRegExp(segment: string): string {
+  let re = "";
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i];
+    if (c === "\\" && i + 1 < segment.length) {
+      re += escapeRegExp(segment[++i]);
+    } else if (c === "*") {
+      while (segment[i + 1] === "*") i++;
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "[") {
+      const end = segment.indexOf("]", i + 2);
+      if (end < 0) {
+        re += "\\[";
+        continue;
+      }
+      let body = segment.slice(i + 1, end);
+      const negate = body[0] === "!" || body[0] === "^";
+      if (negate) body = body.slice(1);
+      body = body.replace(/[\\\]^]/g, "\\$&");
+      re += negate ? `[^/${body}]` : `[${body}]`;
+      i = end;
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return re;
+}
+
+/**
+ * Compile a glob pattern without braces to a regexp source
+ */
+function compile(pattern: string): string {
+  if (pattern.startsWith("./")) pattern = pattern.slice(2);
+  else if (pattern.startsWith("/")) pattern = pattern.slice(1);
+  else if (!pattern.replace(/\/$/, "").includes("/"))
+    pattern = "**/" + pattern;
+
+  // "dir/" matches everything inside dir
+  if (pattern.endsWith("/")) pattern += "**";
+
+  const segments = pattern.split("/");
+  let re = "";
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const last = i === segments.length - 1;
+    if (segment === "**") {
+      // Zero or more dirs, or anything if it's the last segment
+      re += last ? ".*" : "(?:[^/]+/)*";
+    } else {
+      re += segmentToRegExp(segment) + (last ? "" : "/");
+    }
+  }
+  return re;
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths
+ *
+ * @param pattern - Glob pattern
+ * @returns The regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const sources = expandBraces(pattern).map(compile);
+  return new RegExp(`^(?:${sources.join("|")})$`);
+}
+
+/**
+ * Check if a string contains glob syntax
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?[{]/.test(pattern) || pattern.startsWith("!");
+}
+
+/**
+ * Build a matcher for a list of glob patterns. Patterns starting with "!"
+ * exclude paths matched by the previous patterns, the last matching pattern wins.
+ *
+ * @param patterns - Glob patterns
+ * @returns Function checking if a project-relative posix path matches
+ */
+export function createGlobMatcher(patterns: string[]): (file: string) => boolean {
+  const rules = patterns.map((p) => {
+    const negate = p.startsWith("!");
+    return { negate, re: globToRegExp(negate ? p.slice(1) : p) };
+  });
+  return (file: string) => {
+    const normalized = file.replace(/\\/g, "/").replace(/^\.\//, "");
+    let matched = false;
+    for (const rule of rules) {
+      if (rule.negate ? matched : !matched) {
+        if (rule.re.test(normalized)) matched = !rule.negate;
+      }
+    }
+    return matched;
+  };
+}
@@ -0,0 +1,560 @@
+import fs from "fs";
+import path from "path";
+import { SymbolDocParts } from "./docstore.js";
+
+/**
+ * Symbol rendered on the page of its file
+ */
+export type SiteSymbol = SymbolDocParts & {
+  /** StableSymbolId.hash, also the anchor on the file page */
+  hash: string;
+  name: string;
+  /** Name with containers, like Class.method */
+  qualifiedName: string;
+  kind: string;
+  /** Workspace path relative to the project root, empty for single packages */
+  workspace: string;
+};
+
+/**
+ * Documented source file, paths are project-relative posix paths
+ */
+export type SiteFile = {
+  path: string;
+  summary?: string;
+  details?: string;
+  link?: string;
+  symbols: SiteSymbol[];
+};
+
+/**
+ * Documented directory, the project root has an empty path
+ */
+export type SiteDir = {
+  path: string;
+  summary?: string;
+  details?: string;
+  link?: string;
+};
+
+export type SiteContent = {
+  title: string;
+  dirs: SiteDir[];
+  files: SiteFile[];
+};
+
+/**
+ * Entry of the client-side search index, keys are short to keep it small
+ */
+type SearchEntry = {
+  /** Name */
+  n: string;
+  /** Kind: symbol kind, "file" or "directory" */
+  k: string;
+  /** Project-relative path */
+  p: string;
+  /** Summary */
+  s: string;
+  /** Page URL relative to the site root */
+  u: string;
+};
+
+const STYLE_CSS = `body {
+  margin: 0;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+  line-height: 1.5;
+  color: #1f2328;
+}
+a { color: #0969da; text-decoration: none; }
+a:hover { text-decoration: underline; }
+header {
+  display: flex;
+  align-items: center;
+  gap: 24px;
+  padding: 12px 24px;
+  background: #f6f8fa;
+  border-bottom: 1px solid #d0d7de;
+}
+.site-title { font-weight: 600; font-size: 18px; color: #1f2328; }
+.search { position: relative; flex: 1; max-width: 480px; }
+.search input {
+  width: 100%;
+  box-sizing: border-box;
+  padding: 6px 10px;
+  font-size: 14px;
+  border: 1px solid #d0d7de;
+  border-radius: 6px;
+}
+#search-results {
+  position: absolute;
+  z-index: 1;
+  left: 0;
+  right: 0;
+  margin: 4px 0 0;
+  padding: 0;
+  list-style: none;
+  background: #fff;
+  border: 1px solid #d0d7de;
+  border-radius: 6px;
+  max-height: 70vh;
+  overflow-y: auto;
+}
+#search-results:empty { display: none; }
+#search-results li a, #search-results li.empty { display: block; padding: 6px 10px; }
+#search-results li a:hover { background: #f6f8fa; text-decoration: none; }
+.meta { display: block; font-size: 12px; color: #656d76; }
+nav.breadcrumbs { padding: 12px 24px 0; font-size: 14px; }
+main { padding: 0 24px 48px; max-width: 1000px; }
+.text { white-space: pre-wrap; }
+.source { font-size: 14px; font-weight: normal; }
+.kind { font-size: 13px; font-weight: normal; color: #656d76; }
+pre {
+  padding: 12px;
+  overflow-x: auto;
+  background: #f6f8fa;
+  border-radius: 6px;
+  font-size: 13px;
+}
+ul.entries { padding-left: 20px; }
+ul.entries li { margin-bottom: 6px; }
+section.symbol { margin-top: 32px; padding-top: 8px; border-top: 1px solid #d0d7de; }
+dl.refs dt { font-weight: 600; }
+dl.refs dd { margin: 0 0 8px 0; }
+`;
+
+// Plain ES5 so that the site works from file:// in any browser
+const SEARCH_JS = `(function () {
+  var input = document.getElementById("search");
+  var list = document.getElementById("search-results");
+  var root = document.body.getAttribute("data-root") || "";
+  var entries = window.SEARCH_INDEX || [];
+
+  // Every term must match the name, path or summary, name matches rank higher
+  function score(entry, terms) {
+    var name = entry.n.toLowerCase();
+    var text = (entry.p + " " + entry.s).toLowerCase();
+    var total = 0;
+    for (var i = 0; i < terms.length; i++) {
+      var term = terms[i];
+      if (name === term) total += 10;
+      else if (name.indexOf(term) === 0) total += 6;
+      else if (name.indexOf(term) >= 0) total += 4;
+      else if (text.indexOf(term) >= 0) total += 1;
+      else return 0;
+    }
+    return total;
+  }
+
+  function render() {
+    var terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+    list.innerHTML = "";
+    if (!terms.length) return;
+
+    var matches = [];
+    for (var i = 0; i < entries.length; i++) {
+      var s = score(entries[i], terms);
+      if (s) matches.push({ entry: entries[i], score: s });
+    }
+    matches.sort(function (a, b) {
+      return b.score - a.score || a.entry.n.length - b.entry.n.length;
+    });
+
+    if (!matches.length) {
+      var empty = document.createElement("li");
+      empty.className = "empty";
+      empty.textContent = "No results";
+      list.appendChild(empty);
+      return;
+    }
+    matches.slice(0, 20).forEach(function (match) {
+      var item = document.createElement("li");
+      var link = document.createElement("a");
+      link.href = root + match.entry.u;
+      link.textContent = match.entry.n;
+      var meta = document.createElement("span");
+      meta.className = "meta";
+      meta.textContent = match.entry.k + " \\u00b7 " + match.entry.p;
+      link.appendChild(meta);
+      item.appendChild(link);
+      list.appendChild(item);
+    });
+  }
+
+  input.addEventListener("input", render);
+  input.addEventListener("keydown", function (event) {
+    if (event.key === "Enter") {
+      var first = list.querySelector("a");
+      if (first) window.location.href = first.href;
+    } else if (event.key === "Escape") {
+      input.value = "";
+      render();
+    }
+  });
+})();
+`;
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function dirPage(dirPath: string): string {
+  return dirPath ? `${dirPath}/index.html` : "index.html";
+}
+
+function filePage(filePath: string): string {
+  return `${filePath}.html`;
+}
+
+function symbolUrl(symbol: SiteSymbol): string {
+  return `${filePage(symbol.file)}#${symbol.hash}`;
+}
+
+/**
+ * Symbol key that's unique across workspaces, same as the doc id
+ */
+function symbolKey(workspace: string, hash: string): string {
+  return workspace ? `${workspace}:${hash}` : hash;
+}
+
+/**
+ * Link from one page of the site to another
+ *
+ * @param from - Page the link is on, relative to the site root
+ * @param to - Target page relative to the site root, may have an #anchor
+ */
+function href(from: string, to: string): string {
+  const [target, anchor] = to.split("#");
+  const relative = path.posix.relative(path.posix.dirname(from), target);
+  return escapeHtml(anchor ? `${relative}#${anchor}` : relative);
+}
+
+function parentDir(p: string): string {
+  const dir = path.posix.dirname(p);
+  return dir === "." ? "" : dir;
+}
+
+function displayKind(kind: string): string {
+  return kind.replace(/Declaration$/, "");
+}
+
+/**
+ * Summary and details of an entry, the generated text is kept as is
+ */
+function renderDocs(entry: { summary?: string; details?: string }): string {
+  let html = "";
+  if (entry.summary)
+    html += `<div class="text">${escapeHtml(entry.summary)}</div>\n`;
+  if (entry.details)
+    html += `<h4>Details</h4>\n<div class="text">${escapeHtml(
+      entry.details
+    )}</div>\n`;
+  if (!html) html = "<p><em>No generated docs.</em></p>\n";
+  return html;
+}
+
+function renderSourceLink(link?: string): string {
+  return link
+    ? ` <a class="source" href="${escapeHtml(link)}">view source</a>`
+    : "";
+}
+
+/**
+ * Static HTML site with the generated docs: a page per directory and
+ * documented file, symbols are sections of their file's page
+ */
+class SiteWriter {
+  private site: SiteContent;
+  private outDir: string;
+  private symbols = new Map<string, SiteSymbol>();
+  private dirs = new Map<string, SiteDir>();
+  private subdirs = new Map<string, Set<string>>();
+  private files = new Map<string, SiteFile[]>();
+
+  constructor(site: SiteContent, outDir: string) {
+    this.site = site;
+    this.outDir = outDir;
+
+    for (const file of site.files) {
+      for (const symbol of file.symbols)
+        this.symbols.set(symbolKey(symbol.workspace, symbol.hash), symbol);
+
+      const dir = parentDir(file.path);
+      this.addDir(dir);
+      this.files.set(dir, [...(this.files.get(dir) || []), file]);
+    }
+    for (const dir of site.dirs) {
+      this.addDir(dir.path);
+      this.dirs.set(dir.path, dir);
+    }
+  }
+
+  /**
+   * Write all pages and assets
+   *
+   * @returns Number of pages written
+   */
+  write(): number {
+    fs.mkdirSync(this.outDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outDir, "style.css"), STYLE_CSS);
+    fs.writeFileSync(path.join(this.outDir, "search.js"), SEARCH_JS);
+    fs.writeFileSync(
+      path.join(this.outDir, "search-index.js"),
+      `window.SEARCH_INDEX = ${JSON.stringify(this.searchEntries())};\n`
+    );
+
+    let pages = 0;
+    for (const dirPath of this.subdirs.keys()) {
+      this.writePage(dirPage(dirPath), this.renderDir(dirPath));
+      pages++;
+    }
+    for (const file of this.site.files) {
+      this.writePage(filePage(file.path), this.renderFile(file));
+      pages++;
+    }
+    return pages;
+  }
+
+  /**
+   * Register a directory and its ancestors in the tree
+   */
+  private addDir(dirPath: string) {
+    if (this.subdirs.has(dirPath)) return;
+    this.subdirs.set(dirPath, new Set());
+    if (!dirPath) return;
+    const parent = parentDir(dirPath);
+    this.addDir(parent);
+    this.subdirs.get(parent)!.add(dirPath);
+  }
+
+  private searchEntries(): SearchEntry[] {
+    const entries: SearchEntry[] = [];
+    for (const dirPath of this.subdirs.keys()) {
+      if (!dirPath) continue;
+      entries.push({
+        n: path.posix.basename(dirPath) + "/",
+        k: "directory",
+        p: dirPath,
+        s: this.dirs.get(dirPath)?.summary || "",
+        u: dirPage(dirPath),
+      });
+    }
+    for (const file of this.site.files) {
+      entries.push({
+        n: path.posix.basename(file.path),
+        k: "file",
+        p: file.path,
+        s: file.summary || "",
+        u: filePage(file.path),
+      });
+      for (const symbol of file.symbols) {
+        entries.push({
+          n: symbol.qualifiedName,
+          k: displayKind(symbol.kind),
+          p: `${file.path}:${symbol.startLine}`,
+          s: symbol.summary || "",
+          u: symbolUrl(symbol),
+        });
+      }
+    }
+    return entries;
+  }
+
+  private writePage(
+    page: string,
+    { title, body }: { title: string; body: string }
+  ) {
+    const root = "../".repeat(page.split("/").length - 1);
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} - ${escapeHtml(this.site.title)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body data-root="${root}">
+<header>
+<a class="site-title" href="${root}index.html">${escapeHtml(this.site.title)}</a>
+<div class="search">
+<input id="search" type="search" placeholder="Search symbols and files" autocomplete="off">
+<ul id="search-results"></ul>
+</div>
+</header>
+<nav class="breadcrumbs">${this.renderBreadcrumbs(page)}</nav>
+<main>
+${body}</main>
+<script src="${root}search-index.js"></script>
+<script src="${root}search.js"></script>
+</body>
+</html>
+`;
+    const pagePath = path.join(this.outDir, page);
+    fs.mkdirSync(path.dirname(pagePath), { recursive: true });
+    fs.writeFileSync(pagePath, html);
+  }
+
+  /**
+   * Links to the root and the directories containing the page
+   */
+  private renderBreadcrumbs(page: string): string {
+    const parts = page.split("/").slice(0, -1);
+    const crumbs = [
+      `<a href="${href(page, dirPage(""))}">${escapeHtml(this.site.title)}</a>`,
+    ];
+    for (let i = 0; i < parts.length; i++) {
+      const dirPath = parts.slice(0, i + 1).join("/");
+      crumbs.push(
+        `<a href="${href(page, dirPage(dirPath))}">${escapeHtml(parts[i])}</a>`
+      );
+    }
+    return crumbs.join(" / ");
+  }
+
+  private renderDir(dirPath: string) {
+    const page = dirPage(dirPath);
+    const dir = this.dirs.get(dirPath);
+    const title = dirPath ? `${dirPath}/` : this.site.title;
+
+    let body = `<h1>${escapeHtml(title)}${renderSourceLink(dir?.link)}</h1>\n`;
+    body += renderDocs(dir || {});
+
+    const subdirs = [...this.subdirs.get(dirPath)!].sort();
+    if (subdirs.length) {
+      body += `<h2>Directories</h2>\n<ul class="entries">\n`;
+      for (const subdir of subdirs) {
+        const summary = this.dirs.get(subdir)?.summary;
+        body += `<li><a href="${href(page, dirPage(subdir))}">${escapeHtml(
+          path.posix.basename(subdir)
+        )}/</a>${summary ? ` - ${escapeHtml(summary)}` : ""}</li>\n`;
+      }
+      body += "</ul>\n";
+    }
+
+    const files = [...(this.files.get(dirPath) || [])].sort((a, b) =>
+      a.path.localeCompare(b.path)
+    );
+    if (files.length) {
+      body += `<h2>Files</h2>\n<ul class="entries">\n`;
+      for (const file of files) {
+        body += `<li><a href="${href(page, filePage(file.path))}">${escapeHtml(
+          path.posix.basename(file.path)
+        )}</a>${file.summary ? ` - ${escapeHtml(file.summary)}` : ""}</li>\n`;
+      }
+      body += "</ul>\n";
+    }
+    return { title, body };
+  }
+
+  private renderFile(file: SiteFile) {
+    const page = filePage(file.path);
+
+    let body = `<h1>${escapeHtml(file.path)}${renderSourceLink(
+      file.link
+    )}</h1>\n`;
+    body += renderDocs(file);
+
+    if (file.symbols.length) {
+      body += `<h2>Symbols</h2>\n<ul class="entries">\n`;
+      for (const symbol of file.symbols) {
+        body += `<li><a href="#${symbol.hash}">${escapeHtml(
+          symbol.qualifiedName
+        )}</a> <span class="kind">${escapeHtml(
+          displayKind(symbol.kind)
+        )}</span></li>\n`;
+      }
+      body += "</ul>\n";
+      for (const symbol of file.symbols)
+        body += this.renderSymbol(page, symbol);
+    }
+    return { title: file.path, body };
+  }
+
+  private renderSymbol(page: string, symbol: SiteSymbol): string {
+    let html = `<section class="symbol" id="${symbol.hash}">\n`;
+    html += `<h3><a href="#${symbol.hash}">${escapeHtml(
+      symbol.qualifiedName
+    )}</a> <span class="kind">${escapeHtml(
+      displayKind(symbol.kind)
+    )}, lines ${symbol.startLine}-${symbol.endLine}</span>${renderSourceLink(
+      symbol.link
+    )}</h3>\n`;
+    html += `<pre><code>${escapeHtml(symbol.declaration)}</code></pre>\n`;
+    html += renderDocs(symbol);
+
+    if (symbol.usage.length)
+      html += `<h4>Import</h4>\n<pre><code>${escapeHtml(
+        symbol.usage.join("\n\n")
+      )}</code></pre>\n`;
+
+    // Cross-links, the same symbols as the doc's related_ids
+    const refs: [string, string][] = [];
+    const related = symbol.related.map((r) =>
+      this.renderRef(page, symbol.workspace, r.name, r.hash)
+    );
+    if (related.length) refs.push(["Related", related.join(", ")]);
+    const lists: [string, SymbolDocParts["calls"]][] = [
+      ["Calls", symbol.calls],
+      ["Called by", symbol.calledBy],
+      ["Implemented by", symbol.implementedBy],
+    ];
+    for (const [label, ids] of lists) {
+      if (!ids.length) continue;
+      const links = ids.map((id) =>
+        this.renderRef(
+          page,
+          symbol.workspace,
+          [...id.containerChain.map((c) => c.name), id.name].join("."),
+          id.hash
+        )
+      );
+      refs.push([label, links.join(", ")]);
+    }
+    if (refs.length) {
+      html += `<dl class="refs">\n`;
+      for (const [label, links] of refs)
+        html += `<dt>${label}</dt><dd>${links}</dd>\n`;
+      html += "</dl>\n";
+    }
+
+    if (symbol.code)
+      html += `<details><summary>Code</summary>\n<pre><code>${escapeHtml(
+        symbol.code
+      )}</code></pre>\n</details>\n`;
+    return html + "</section>\n";
+  }
+
+  /**
+   * Link to a symbol of the same workspace, plain name if it's not on the site
+   */
+  private renderRef(
+    page: string,
+    workspace: string,
+    name: string,
+    hash?: string
+  ): string {
+    const target = hash && this.symbols.get(symbolKey(workspace, hash));
+    return target
+      ? `<a href="${href(page, symbolUrl(target))}"><code>${escapeHtml(
+          name
+        )}</code></a>`
+      : `<code>${escapeHtml(name)}</code>`;
+  }
+}
+
+/**
+ * Write the docs of a project as a static HTML site with client-side search
+ *
+ * @param site - Directories, files and symbols to render
+ * @param outDir - Output directory, created if needed
+ * @returns Number of pages written
+ */
+export function writeSite(site: SiteContent, outDir: string): number {
+  return new SiteWriter(site, outDir).write();
+}
@@ -0,0 +1,213 @@
+import fs from "fs";
+import path from "path";
+import { Symbol } from "../indexer/typescript/TypeScript.js";
+import { debugCli } from "./debug.js";
+import { getChangedFiles, readFileAtCommit } from "./git.js";
+import { isSymbolEntry, readDocEntries, writeDocEntries } from "./docsDir.js";
+
+/**
+ * Result of comparing existing docs against the changes since their commit
+ */
+export interface IncrementalPlan {
+  /** Commit the existing docs were generated from */
+  baseCommit: string;
+  /** Workspace-relative source files changed since baseCommit */
+  changedFiles: string[];
+  /** Docs files to overwrite, mapped to the entries that are still valid */
+  rewrites: Map<string, any[]>;
+  /** Docs files to delete, their source files have no symbols anymore */
+  removals: string[];
+  /** Workspace-relative dirs whose summaries must be regenerated ("/" is the root) */
+  staleDirs: string[];
+  /** Number of symbol docs reused from changed files */
+  reused: number;
+  /** Number of symbol docs dropped because the symbol changed or was deleted */
+  dropped: number;
+}
+
+/**
+ * Extract the text of lines [start, end] from file content
+ *
+ * @param content - File content
+ * @param start - Start position in "line:column" format
+ * @param end - End position in "line:column" format
+ * @returns The lines with trailing whitespace trimmed
+ */
+export function sliceLines(
+  content: string,
+  start: string,
+  end: string
+): string {
+  const startLine = parseInt(start.split(":")[0]);
+  const endLine = parseInt(end.split(":")[0]);
+  return content
+    .split("\n")
+    .slice(startLine - 1, endLine)
+    .map((line) => line.trimEnd())
+    .join("\n");
+}
+
+/**
+ * Add all parent directories of a file to the set, including the root "/"
+ */
+function addParentDirs(dirs: Set<string>, filePath: string) {
+  dirs.add("/");
+  let dirPath = path.posix.dirname(filePath);
+  while (dirPath !== "." && dirPath !== "/" && dirPath !== "") {
+    dirs.add(dirPath);
+    dirPath = path.posix.dirname(dirPath);
+  }
+}
+
+/**
+ * Figure out which docs can be reused after the code changed since baseCommit.
+ *
+ * Docs of unchanged files are reused as-is. In changed files, a symbol doc is
+ * reused if its StableSymbolId.hash (which covers the header) still exists and
+ * its body is unchanged (per bodyHash, or per source lines at baseCommit for
+ * older docs without it), docs of changed and deleted symbols are dropped, as
+ * well as the summaries of changed files and of all dirs on their paths.
+ *
+ * @param workspacePath - Path to the workspace
+ * @param docsPath - Path to the workspace INDEXER_DIR
+ * @param symbols - Flat list of current workspace symbols
+ * @param baseCommit - Commit the existing docs were generated from
+ * @returns The plan, nothing is written to disk
+ */
+export function planIncrementalUpdate(
+  workspacePath: string,
+  docsPath: string,
+  symbols: Symbol[],
+  baseCommit: string
+): IncrementalPlan {
+  const changedFiles = getChangedFiles(workspacePath, baseCommit).map(
+    (c) => c.path
+  );
+  debugCli(`${changedFiles.length} files changed since ${baseCommit}`);
+
+  // Current symbols by file and hash
+  const symbolsByFile = new Map<string, Map<string, Symbol>>();
+  for (const symbol of symbols) {
+    let fileSymbols = symbolsByFile.get(symbol.id.file);
+    if (!fileSymbols) {
+      fileSymbols = new Map();
+      symbolsByFile.set(symbol.id.file, fileSymbols);
+    }
+    fileSymbols.set(symbol.id.hash, symbol);
+  }
+
+  const plan: IncrementalPlan = {
+    baseCommit,
+    changedFiles,
+    rewrites: new Map(),
+    removals: [],
+    staleDirs: [],
+    reused: 0,
+    dropped: 0,
+  };
+  const staleDirs = new Set<string>();
+
+  for (const file of changedFiles) {
+    const docsFile = path.join(docsPath, file + ".json");
+    const fileSymbols = symbolsByFile.get(file);
+    const documented = fs.existsSync(docsFile);
+
+    // Not a source file we care about
+    if (!documented && !fileSymbols) continue;
+
+    addParentDirs(staleDirs, file);
+    if (!documented) continue;
+
+    const currentContent = fileSymbols
+      ? fs.readFileSync(path.join(workspacePath, file), "utf8")
+      : "";
+    let oldContent: string | undefined;
+
+    const kept: any[] = [];
+    for (const entry of readDocEntries(docsFile)) {
+      // File summaries and failure records of changed files are regenerated
+      if (!isSymbolEntry(entry)) continue;
+
+      const symbol = fileSymbols?.get(entry.id?.hash);
+      if (!symbol) {
+        debugCli(`Dropping docs of changed symbol ${entry.id?.name} in ${file}`);
+        plan.dropped++;
+        continue;
+      }
+
+      // Same header, check if the body changed too
+      let bodyChanged: boolean;
+      if (entry.bodyHash && symbol.bodyHash) {
+        bodyChanged = entry.bodyHash !== symbol.bodyHash;
+      } else {
+        // Docs generated before bodyHash existed, compare the source lines
+        if (oldContent === undefined)
+          oldContent = readFileAtCommit(workspacePath, baseCommit, file) || "";
+        bodyChanged =
+          sliceLines(oldContent, entry.start, entry.end) !==
+          sliceLines(currentContent, symbol.start, symbol.end);
+      }
+
+      if (bodyChanged) {
+        debugCli(`Dropping docs of symbol ${symbol.id.name} in ${file}, body changed`);
+        plan.dropped++;
+        continue;
+      }
+
+      // Keep generated docs, refresh positions and other symbol info
+      kept.push({
+        ...entry,
+        ...symbol,
+        children: undefined,
+        parent: undefined,
+      });
+      plan.reused++;
+    }
+
+    if (!kept.length && !fileSymbols) plan.removals.push(docsFile);
+    else plan.rewrites.set(docsFile, kept);
+  }
+
+  plan.staleDirs = Array.from(staleDirs);
+  return plan;
+}
+
+/**
+ * Write the results of planIncrementalUpdate to INDEXER_DIR
+ *
+ * @param docsPath - Path to the workspace INDEXER_DIR
+ * @param plan - Plan to apply
+ */
+export function applyIncrementalPlan(
+  docsPath: string,
+  plan: IncrementalPlan
+): void {
+  for (const [docsFile, entries] of plan.rewrites) {
+    writeDocEntries(docsFile, entries);
+  }
+
+  for (const docsFile of plan.removals) {
+    fs.rmSync(docsFile, { force: true });
+    debugCli(`Removed docs of deleted file: ${docsFile}`);
+  }
+
+  // Sort by length desc to clean up leaf dirs first
+  const dirs = [...plan.staleDirs].sort((a, b) => b.length - a.length);
+  for (const dir of dirs) {
+    const dirDocsPath = dir === "/" ? docsPath : path.join(docsPath, dir);
+    fs.rmSync(path.join(dirDocsPath, "summary.json"), { force: true });
+
+    // Drop dirs that have no docs left
+    if (
+      dir !== "/" &&
+      fs.existsSync(dirDocsPath) &&
+      fs.readdirSync(dirDocsPath).length === 0
+    ) {
+      fs.rmdirSync(dirDocsPath);
+    }
+  }
+
+  debugCli(
+    `Incremental update: reused ${plan.reused} symbol docs in changed files, dropped ${plan.dropped}, ${plan.staleDirs.length} dir summaries to regenerate`
+  );
+}
@@ -0,0 +1,179 @@
+import { Readable, Writable } from "stream";
+import { debugCli, debugError } from "./debug.js";
+
+/**
+ * JSON-RPC 2.0 message, request, response or notification
+ */
+export type JsonRpcMessage = {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string };
+};
+
+/** Error codes of JSON-RPC and LSP */
+export const JSON_RPC_ERRORS = {
+  parseError: -32700,
+  methodNotFound: -32601,
+  internalError: -32603,
+  serverNotInitialized: -32002,
+};
+
+/**
+ * Error thrown by request handlers to reply with a specific error code
+ */
+export class JsonRpcError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = "JsonRpcError";
+    this.code = code;
+  }
+}
+
+type RequestHandler = (params: any) => any | Promise<any>;
+type NotificationHandler = (params: any) => void;
+
+/**
+ * JSON-RPC connection with LSP base protocol framing:
+ * every message is preceded by a `Content-Length` header and an empty line.
+ */
+export class JsonRpcConnection {
+  private input: Readable;
+  private output: Writable;
+  private buffer = Buffer.alloc(0);
+  private requestHandlers = new Map<string, RequestHandler>();
+  private notificationHandlers = new Map<string, NotificationHandler>();
+
+  /**
+   * @param input - Stream of incoming messages, i.e. stdin
+   * @param output - Stream for outgoing messages, i.e. stdout
+   */
+  constructor(input: Readable, output: Writable) {
+    this.input = input;
+    this.output = output;
+  }
+
+  /**
+   * Handle requests of a method, the returned value is sent as the result,
+   * thrown errors are sent as internal errors
+   */
+  onRequest(method: string, handler: RequestHandler) {
+    this.requestHandlers.set(method, handler);
+  }
+
+  /**
+   * Handle notifications of a method, unhandled notifications are ignored
+   */
+  onNotification(method: string, handler: NotificationHandler) {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  /**
+   * Start reading messages from the input
+   */
+  listen() {
+    this.input.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.readMessages();
+    });
+  }
+
+  private readMessages() {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) return;
+
+      const headers = this.buffer.subarray(0, headerEnd).toString("ascii");
+      const match = /Content-Length:\s*(\d+)/i.exec(headers);
+      if (!match) {
+        // Can't recover the framing, drop the garbage
+        debugError(`Bad JSON-RPC headers: ${headers}`);
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+
+      const bodyStart = headerEnd + 4;
+      const bodyEnd = bodyStart + parseInt(match[1], 10);
+      if (this.buffer.length < bodyEnd) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString("utf8");
+      this.buffer = this.buffer.subarray(bodyEnd);
+
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(body);
+      } catch (error) {
+        this.sendError(
+          null,
+          JSON_RPC_ERRORS.parseError,
+          (error as Error).message
+        );
+        continue;
+      }
+      void this.dispatch(message);
+    }
+  }
+
+  private async dispatch(message: JsonRpcMessage) {
+    if (!message.method) return; // responses to our requests, we send none
+
+    const isRequest = message.id !== undefined && message.id !== null;
+    debugCli(
+      `JSON-RPC ${isRequest ? "request" : "notification"} ${message.method}`
+    );
+    if (!isRequest) {
+      try {
+        this.notificationHandlers.get(message.method)?.(message.params);
+      } catch (error) {
+        debugError(
+          `Error handling ${message.method}: ${(error as Error).message}`
+        );
+      }
+      return;
+    }
+
+    const handler = this.requestHandlers.get(message.method);
+    if (!handler) {
+      this.sendError(
+        message.id!,
+        JSON_RPC_ERRORS.methodNotFound,
+        `Unhandled method ${message.method}`
+      );
+      return;
+    }
+
+    try {
+      const result = await handler(message.params);
+      this.send({ jsonrpc: "2.0", id: message.id, result: result ?? null });
+    } catch (error) {
+      debugError(
+        `Error handling ${message.method}: ${(error as Error).message}`
+      );
+      this.sendError(
+        message.id!,
+        error instanceof JsonRpcError
+          ? error.code
+          : JSON_RPC_ERRORS.internalError,
+        (error as Error).message
+      );
+    }
+  }
+
+  private sendError(
+    id: number | string | null,
+    code: number,
+    message: string
+  ) {
+    this.send({ jsonrpc: "2.0", id, error: { code, message } });
+  }
+
+  private send(message: JsonRpcMessage) {
+    const body = Buffer.from(JSON.stringify(message), "utf8");
+    this.output.write(`Content-Length: ${body.length}\r\n\r\n`);
+    this.output.write(body);
+  }
+}
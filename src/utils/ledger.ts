@@ -0,0 +1,105 @@
+import fs from "fs";
+import path from "path";
+import { readDocEntries } from "./docsDir.js";
+
+/** Name of the spend ledger file in INDEXER_DIR */
+export const LEDGER_FILE = "ledger.jsonl";
+
+/**
+ * Thrown when a request would make the run spend more than its budget
+ */
+export class BudgetExceededError extends Error {
+  budget: number;
+  spent: number;
+
+  constructor(budget: number, spent: number, amount: number) {
+    super(
+      `Budget of ${budget} sats exceeded: spent ${spent} sats, next request costs ${amount} sats`
+    );
+    this.name = "BudgetExceededError";
+    this.budget = budget;
+    this.spent = spent;
+  }
+}
+
+/**
+ * Total spend limit shared by all requests of a run
+ */
+export class Budget {
+  private limit?: number;
+  private spentSats = 0;
+
+  /**
+   * @param limit - Max sats to spend, unlimited if undefined or 0
+   */
+  constructor(limit?: number) {
+    this.limit = limit || undefined;
+  }
+
+  get spent(): number {
+    return this.spentSats;
+  }
+
+  /**
+   * Account for a request before paying for it.
+   *
+   * The amount is counted as spent right away, even if the request
+   * fails later, as we can't tell whether the payment went through.
+   *
+   * @param amountSats - Quoted amount
+   * @throws BudgetExceededError if the amount doesn't fit in the budget
+   */
+  spend(amountSats: number): void {
+    if (this.limit !== undefined && this.spentSats + amountSats > this.limit) {
+      throw new BudgetExceededError(this.limit, this.spentSats, amountSats);
+    }
+    this.spentSats += amountSats;
+  }
+}
+
+/**
+ * A paid request recorded in the ledger
+ */
+export interface LedgerEntry {
+  /** ISO timestamp of the reply, or of the failure */
+  time: string;
+  kind: "symbol" | "file" | "dir";
+  /** Workspace-relative path of the file or dir */
+  path: string;
+  /** Symbol hash and name, for symbol requests */
+  hash?: string;
+  name?: string;
+  /** Symbol hashes, for batched symbol requests */
+  hashes?: string[];
+  quoteId: string;
+  /** Model that handled the request */
+  model: string;
+  /** Whether the fallback model was used */
+  fallback: boolean;
+  amountSats: number;
+  /** Token usage reported by the backend */
+  usage?: any;
+  /** Error of a request that failed after it was paid for */
+  error?: string;
+}
+
+/**
+ * Append an entry to the ledger file
+ *
+ * @param ledgerFile - Path to the ledger file
+ * @param entry - Entry to append
+ */
+export function appendLedgerEntry(ledgerFile: string, entry: LedgerEntry) {
+  fs.mkdirSync(path.dirname(ledgerFile), { recursive: true });
+  fs.appendFileSync(ledgerFile, JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Read all entries of the ledger file
+ *
+ * @param ledgerFile - Path to the ledger file
+ * @returns Ledger entries, or empty array if the file doesn't exist
+ */
+export function readLedger(ledgerFile: string): LedgerEntry[] {
+  return readDocEntries(ledgerFile) as LedgerEntry[];
+}
@@ -0,0 +1,58 @@
+/**
+ * Small least-recently-used cache, evicts the oldest entry when full
+ */
+export class LruCache<K, V> {
+  private maxSize: number;
+  // Map keeps insertion order, most recently used entries are at the end
+  private entries = new Map<K, V>();
+
+  /**
+   * @param maxSize - Max number of entries to keep
+   */
+  constructor(maxSize: number) {
+    this.maxSize = Math.max(1, maxSize);
+  }
+
+  /**
+   * Get an entry and mark it as recently used
+   */
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /**
+   * Add or replace an entry, evicting the least recently used one if needed
+   */
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Get an entry, creating it with `load` if it's missing
+   */
+  getOrLoad(key: K, load: (key: K) => V): V {
+    let value = this.get(key);
+    if (value === undefined) {
+      value = load(key);
+      this.set(key, value);
+    }
+    return value;
+  }
+
+  delete(key: K): void {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,296 @@
+import ts from "typescript";
+
+/**
+ * Section of a Markdown file, split by heading hierarchy
+ */
+export type MarkdownSection = {
+  /** Headings from the top level down to the section's own heading, empty before the first heading */
+  headingPath: string[];
+  /** GitHub-style anchor of the section's heading */
+  anchor?: string;
+  /** 1-based lines of the section in the file, inclusive */
+  startLine: number;
+  endLine: number;
+  /** 1-based index and number of chunks if the section was split by size */
+  part: number;
+  parts: number;
+  text: string;
+  /** Fenced code blocks of the section (chunk) */
+  codeBlocks: { lang: string; code: string }[];
+};
+
+export type MarkdownSplitOptions = {
+  /** Max chars of a section, longer ones are split into chunks */
+  maxChars: number;
+  /** Chars of the previous chunk repeated at the start of the next one */
+  overlap: number;
+};
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const ATX_HEADING_RE = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const SETEXT_RE = /^ {0,3}(=+|-+)\s*$/;
+
+/** Languages of code blocks that may mention project symbols */
+export const TS_CODE_LANGS = new Set([
+  "ts",
+  "typescript",
+  "tsx",
+  "js",
+  "javascript",
+  "jsx",
+  "mjs",
+  "cjs",
+]);
+
+/**
+ * GitHub-style heading anchor, e.g. "Usage: `init()`" -> "usage-init"
+ *
+ * @param heading - Heading text
+ * @param seen - Anchors of the file so far, duplicates get -1, -2... suffixes
+ */
+export function headingAnchor(heading: string, seen: Map<string, number>) {
+  const base = heading
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+  const count = seen.get(base) || 0;
+  seen.set(base, count + 1);
+  return count ? `${base}-${count}` : base;
+}
+
+/**
+ * Fenced code blocks of markdown lines
+ */
+function extractCodeBlocks(lines: string[]): { lang: string; code: string }[] {
+  const blocks: { lang: string; code: string }[] = [];
+  let fence: { marker: string; lang: string; lines: string[] } | undefined;
+  for (const line of lines) {
+    const m = FENCE_RE.exec(line);
+    if (!fence) {
+      if (m) fence = { marker: m[1], lang: m[2].toLowerCase(), lines: [] };
+    } else if (
+      m &&
+      m[1][0] === fence.marker[0] &&
+      m[1].length >= fence.marker.length &&
+      !m[2]
+    ) {
+      blocks.push({ lang: fence.lang, code: fence.lines.join("\n") });
+      fence = undefined;
+    } else {
+      fence.lines.push(line);
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Split markdown by headings into sections, and sections longer than
+ * maxChars into chunks of whole lines (preferring blank lines outside of
+ * code blocks as boundaries) overlapping by up to `overlap` chars.
+ *
+ * @param content - Markdown text
+ * @param options - Size limits
+ * @returns Sections in file order, empty ones are skipped
+ */
+export function splitMarkdownSections(
+  content: string,
+  options: MarkdownSplitOptions
+): MarkdownSection[] {
+  const lines = content.split(/\r?\n/);
+
+  // Find headings outside of fenced code
+  const headings: { line: number; level: number; text: string }[] = [];
+  let fence: string | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const m = FENCE_RE.exec(line);
+    if (fence) {
+      if (m && m[1][0] === fence[0] && m[1].length >= fence.length)
+        fence = undefined;
+      continue;
+    }
+    if (m) {
+      fence = m[1];
+      continue;
+    }
+
+    const atx = ATX_HEADING_RE.exec(line);
+    if (atx) {
+      headings.push({ line: i, level: atx[1].length, text: atx[2] || "" });
+      continue;
+    }
+    // "Title\n=====" and "Title\n-----", a paragraph line must precede
+    const setext = SETEXT_RE.exec(line);
+    if (
+      setext &&
+      i > 0 &&
+      lines[i - 1].trim() &&
+      !headings.some((h) => h.line === i - 1) &&
+      (i < 2 || !lines[i - 2].trim())
+    ) {
+      headings.push({
+        line: i - 1,
+        level: setext[1][0] === "=" ? 1 : 2,
+        text: lines[i - 1].trim(),
+      });
+    }
+  }
+
+  const sections: MarkdownSection[] = [];
+  const anchors = new Map<string, number>();
+  const stack: { level: number; text: string }[] = [];
+
+  const addSection = (
+    start: number,
+    end: number,
+    headingPath: string[],
+    anchor?: string
+  ) => {
+    const sectionLines = lines.slice(start, end);
+    if (!sectionLines.join("").trim()) return;
+
+    const chunks = chunkLines(sectionLines, options);
+    chunks.forEach((chunk, index) => {
+      const chunkLinesText = sectionLines.slice(chunk.start, chunk.end);
+      sections.push({
+        headingPath,
+        anchor,
+        startLine: start + chunk.start + 1,
+        endLine: start + chunk.end,
+        part: index + 1,
+        parts: chunks.length,
+        text: chunkLinesText.join("\n").trim(),
+        codeBlocks: extractCodeBlocks(chunkLinesText),
+      });
+    });
+  };
+
+  // Text before the first heading
+  addSection(0, headings.length ? headings[0].line : lines.length, []);
+
+  headings.forEach((heading, index) => {
+    while (stack.length && stack[stack.length - 1].level >= heading.level)
+      stack.pop();
+    stack.push(heading);
+
+    const end =
+      index + 1 < headings.length ? headings[index + 1].line : lines.length;
+    addSection(
+      heading.line,
+      end,
+      stack.map((h) => h.text),
+      headingAnchor(heading.text, anchors)
+    );
+  });
+
+  return sections;
+}
+
+/**
+ * Split lines into chunks of at most maxChars (single longer lines excepted)
+ *
+ * @returns Line ranges [start, end) of the chunks
+ */
+function chunkLines(
+  lines: string[],
+  options: MarkdownSplitOptions
+): { start: number; end: number }[] {
+  const size = (from: number, to: number) =>
+    lines.slice(from, to).reduce((n, l) => n + l.length + 1, 0);
+  if (size(0, lines.length) <= options.maxChars)
+    return [{ start: 0, end: lines.length }];
+
+  // Blank lines outside of code blocks are the preferred boundaries
+  const preferred = new Set<number>();
+  let inFence = false;
+  lines.forEach((line, i) => {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    else if (!inFence && !line.trim()) preferred.add(i + 1);
+  });
+
+  const chunks: { start: number; end: number }[] = [];
+  let start = 0;
+  while (start < lines.length) {
+    // Longest range within the limit, at least one line
+    let end = start + 1;
+    let chars = lines[start].length + 1;
+    while (end < lines.length && chars + lines[end].length + 1 <= options.maxChars)
+      chars += lines[end++].length + 1;
+
+    // Move the end back to a paragraph boundary if there's one in the second half
+    if (end < lines.length) {
+      for (let b = end; b > start + 1; b--) {
+        if (size(start, b) < options.maxChars / 2) break;
+        if (preferred.has(b)) {
+          end = b;
+          break;
+        }
+      }
+    }
+    chunks.push({ start, end });
+    if (end >= lines.length) break;
+
+    // Next chunk repeats the last lines of this one, up to overlap chars
+    let next = end;
+    while (
+      next > start + 1 &&
+      size(next - 1, end) <= options.overlap
+    )
+      next--;
+    start = next;
+  }
+  return chunks;
+}
+
+/**
+ * Names of project symbols that code examples may mention
+ */
+export type MentionTarget = {
+  name: string;
+  hash: string;
+  /** Hash of the class/interface/object the symbol is a member of */
+  parentHash?: string;
+};
+
+/**
+ * Find project symbols mentioned by code examples: top-level symbols by
+ * identifier, and members of those symbols by property name.
+ *
+ * @param code - Code of the example
+ * @param targets - Symbols by name
+ * @returns Hashes of the mentioned symbols
+ */
+export function findMentionedSymbols(
+  code: string,
+  targets: Map<string, MentionTarget[]>
+): string[] {
+  const names = new Set<string>();
+  const sf = ts.createSourceFile(
+    "example.tsx",
+    code,
+    ts.ScriptTarget.Latest,
+    false,
+    ts.ScriptKind.TSX
+  );
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node))
+      names.add(node.text);
+    ts.forEachChild(node, visit);
+  };
+  visit(sf);
+
+  const roots = new Set<string>();
+  for (const name of names) {
+    for (const t of targets.get(name) || []) if (!t.parentHash) roots.add(t.hash);
+  }
+
+  // Members count only if their container is mentioned too
+  const result = new Set(roots);
+  for (const name of names) {
+    for (const t of targets.get(name) || [])
+      if (t.parentHash && roots.has(t.parentHash)) result.add(t.hash);
+  }
+  return [...result];
+}
@@ -0,0 +1,413 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import {
+  FoundExport,
+  Symbol,
+  TypeScript,
+} from "../indexer/typescript/TypeScript.js";
+import { debugCli } from "./debug.js";
+import { extractWorkspaces } from "./workspace.js";
+import { flattenSymbols } from "./docStatus.js";
+import { isSymbolEntry, readDocEntries } from "./docsDir.js";
+
+/**
+ * Symbol of the project, with paths relative to the project root
+ */
+export type SymbolInfo = {
+  /** StableSymbolId.hash */
+  hash: string;
+  name: string;
+  /** Name with containers, like Class.method */
+  qualifiedName: string;
+  kind: string;
+  /** Workspace path relative to the project root, "." for single packages */
+  workspace: string;
+  /** Project-relative posix path */
+  file: string;
+  /** "line:column" of the declaration start and end */
+  start: string;
+  end: string;
+  /** Exported from its module, or a member of an exported symbol */
+  exported: boolean;
+};
+
+export type SymbolDocInfo = SymbolInfo & {
+  declaration: string;
+  summary?: string;
+  details?: string;
+};
+
+export type ImportPathInfo = {
+  /** Import statement of the export the path starts from */
+  import: string;
+  /** Access expression from the import, empty if the symbol is imported directly */
+  access: string;
+  requiresNew: boolean;
+  /** The module isn't exposed by package.json exports */
+  internal: boolean;
+};
+
+export type RelatedInfo = {
+  name: string;
+  /** Project-relative posix path */
+  file?: string;
+  line?: number;
+  /** Hash of the related symbol, if it's one of the project symbols */
+  hash?: string;
+};
+
+export type ExportInfo = {
+  workspace: string;
+  exportName: string;
+  importKind: FoundExport["importKind"];
+  isTypeOnly: boolean;
+  import: string;
+  /** Project-relative posix path of the module exporting the symbol */
+  module: string;
+  internal: boolean;
+  hash?: string;
+};
+
+type WorkspaceIndex = {
+  /** Absolute path */
+  path: string;
+  /** Relative to the project root, "." for single packages */
+  relative: string;
+  docsPath: string;
+  typescript: TypeScript;
+  symbols: Symbol[];
+  byHash: Map<string, Symbol>;
+};
+
+/**
+ * Queryable index of a project's code: symbols of all workspaces, their
+ * generated docs, import paths and related symbols. Workspaces are analyzed
+ * on first use and kept in memory, meant for long-running servers.
+ */
+export class ProjectIndex {
+  private projectPath: string;
+  private docsDir: string;
+  private loaded?: WorkspaceIndex[];
+  private docsCache = new Map<string, Map<string, any>>();
+
+  /**
+   * @param projectPath - Path to the project root
+   * @param docsDir - Docs directory, relative paths (like INDEXER_DIR) are
+   *   resolved against every workspace
+   */
+  constructor(projectPath: string, docsDir: string) {
+    this.projectPath = path.resolve(projectPath);
+    this.docsDir = docsDir;
+  }
+
+  /**
+   * Analyzed workspaces of the project, those without TS config are skipped
+   */
+  getWorkspaces(): WorkspaceIndex[] {
+    if (this.loaded) return this.loaded;
+
+    const workspaces = extractWorkspaces(this.projectPath);
+    const paths = workspaces.length
+      ? workspaces.map((w) => w.path)
+      : [this.projectPath];
+
+    this.loaded = [];
+    for (const workspacePath of paths) {
+      if (
+        !fs.existsSync(path.join(workspacePath, "tsconfig.json")) &&
+        !fs.existsSync(path.join(workspacePath, "deno.json"))
+      ) {
+        debugCli(
+          `Skipping workspace ${workspacePath}: no tsconfig.json or deno.json found`
+        );
+        continue;
+      }
+
+      const typescript = new TypeScript(workspacePath);
+      const symbols = flattenSymbols(typescript.listRootSymbols());
+      debugCli(`Workspace ${workspacePath} has ${symbols.length} symbols`);
+      this.loaded.push({
+        path: workspacePath,
+        relative: path.relative(this.projectPath, workspacePath) || ".",
+        docsPath: path.resolve(workspacePath, this.docsDir),
+        typescript,
+        symbols,
+        byHash: new Map(symbols.map((s) => [s.id.hash, s])),
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Find symbols by name: exports with that name (after alias resolution),
+   * and declarations with that name or qualified name (Class.method)
+   *
+   * @param name - Symbol name or qualified name
+   * @returns Matches, exported ones first
+   */
+  findSymbols(name: string): SymbolInfo[] {
+    const result = new Map<string, SymbolInfo>();
+    for (const ws of this.getWorkspaces()) {
+      for (const exp of ws.typescript.find(name)) {
+        const hash = ws.typescript.buildStableId(exp.symbol)?.hash;
+        const symbol = hash ? ws.byHash.get(hash) : undefined;
+        if (symbol) result.set(symbol.id.hash, this.toInfo(ws, symbol));
+      }
+      for (const symbol of ws.symbols) {
+        if (
+          !result.has(symbol.id.hash) &&
+          (symbol.id.name === name || qualifiedName(symbol) === name)
+        )
+          result.set(symbol.id.hash, this.toInfo(ws, symbol));
+      }
+    }
+    return [...result.values()].sort(
+      (a, b) => Number(b.exported) - Number(a.exported)
+    );
+  }
+
+  /**
+   * Get a symbol by hash, or by name if there's no symbol with that hash
+   *
+   * @param ref - StableSymbolId.hash, name or qualified name
+   * @returns The symbol, the best match for names
+   */
+  getSymbol(ref: string): SymbolInfo | undefined {
+    const found = this.lookup(ref);
+    return found && this.toInfo(found.ws, found.symbol);
+  }
+
+  /**
+   * Get the declaration and the generated docs of a symbol
+   *
+   * @param ref - StableSymbolId.hash, name or qualified name
+   * @returns Symbol with docs, summary is missing if it wasn't documented
+   */
+  getSymbolDoc(ref: string): SymbolDocInfo | undefined {
+    const found = this.lookup(ref);
+    if (!found) return undefined;
+    const { ws, symbol } = found;
+
+    const entry = this.readDocs(ws, symbol.id.file).get(symbol.id.hash);
+    return {
+      ...this.toInfo(ws, symbol),
+      declaration: symbol.declText,
+      summary: entry?.summary,
+      details: entry?.details,
+    };
+  }
+
+  /**
+   * Ways to import and access a symbol from the package's public API
+   *
+   * @param ref - StableSymbolId.hash, name or qualified name
+   * @param includeInternal - Keep paths through modules not exposed by package.json exports
+   * @returns Paths, best first, undefined if the symbol isn't found
+   */
+  pathsTo(ref: string, includeInternal = false): ImportPathInfo[] | undefined {
+    const found = this.lookup(ref);
+    if (!found) return undefined;
+    const { ws, symbol } = found;
+
+    const resolved = ws.typescript.resolveStableId(symbol.id);
+    if (!resolved) return [];
+    const packageName = ws.typescript.getPackageJson()?.name || "<package>";
+    return ws.typescript
+      .pathsToRanked(resolved.decl, { includeInternal })
+      .map((p) => ({
+        import: ws.typescript.makeImportStatement(p.root, packageName),
+        access: p.steps.length
+          ? (p.requiresNew ? "new " : "") + p.pretty
+          : "",
+        requiresNew: !!p.requiresNew,
+        internal: !!p.root.isInternal,
+      }));
+  }
+
+  /**
+   * Project symbols used by the symbol's declaration: parameter, return,
+   * property and heritage types, and value-side references
+   *
+   * @param ref - StableSymbolId.hash, name or qualified name
+   * @returns Related symbols, undefined if the symbol isn't found
+   */
+  related(ref: string): RelatedInfo[] | undefined {
+    const found = this.lookup(ref);
+    if (!found) return undefined;
+    const { ws, symbol } = found;
+
+    const resolved = ws.typescript.resolveStableId(symbol.id);
+    if (!resolved) return [];
+    return ws.typescript.related(resolved.decl).map((item) => {
+      const hash = ws.typescript.buildStableId(item.symbol)?.hash;
+      return {
+        name: item.symbol.getName(),
+        file: item.file ? this.relativePath(item.file) : undefined,
+        line: item.line,
+        hash: hash && ws.byHash.has(hash) ? hash : undefined,
+      };
+    });
+  }
+
+  /**
+   * List exports of the workspaces
+   *
+   * @param workspace - Only list exports of this workspace (relative path or package name)
+   * @param includeInternal - Also list exports of modules not exposed by package.json exports
+   * @returns Exports, ordered by module and name
+   */
+  listExports(workspace?: string, includeInternal = false): ExportInfo[] {
+    const result: ExportInfo[] = [];
+    for (const ws of this.getWorkspaces()) {
+      const packageName = ws.typescript.getPackageJson()?.name;
+      if (workspace && workspace !== ws.relative && workspace !== packageName)
+        continue;
+
+      for (const exp of ws.typescript.list()) {
+        if (exp.isInternal && !includeInternal) continue;
+        const hash = ws.typescript.buildStableId(exp.symbol)?.hash;
+        result.push({
+          workspace: ws.relative,
+          exportName: exp.exportName,
+          importKind: exp.importKind,
+          isTypeOnly: exp.isTypeOnly,
+          import: ws.typescript.makeImportStatement(
+            exp,
+            packageName || "<package>"
+          ),
+          module: this.relativePath(exp.moduleFile),
+          internal: !!exp.isInternal,
+          hash: hash && ws.byHash.has(hash) ? hash : undefined,
+        });
+      }
+    }
+    return result.sort(
+      (a, b) =>
+        a.module.localeCompare(b.module) ||
+        a.exportName.localeCompare(b.exportName)
+    );
+  }
+
+  /**
+   * Find the project symbol referenced or declared at a position of a
+   * source file, as analyzed on disk
+   *
+   * @param absFile - Absolute path of the source file
+   * @param line - 0-based line
+   * @param character - 0-based column
+   * @returns The symbol, undefined if there's no project symbol at the position
+   */
+  symbolAtPosition(
+    absFile: string,
+    line: number,
+    character: number
+  ): SymbolInfo | undefined {
+    for (const ws of this.getWorkspaces()) {
+      const program = ws.typescript.getProgram();
+      const sf = program.getSourceFile(absFile);
+      if (!sf || line >= sf.getLineStarts().length) continue;
+
+      const pos = sf.getPositionOfLineAndCharacter(line, character);
+      const node = findIdentifierAt(sf, pos);
+      if (!node) return undefined;
+
+      const checker = program.getTypeChecker();
+      let symbol = checker.getSymbolAtLocation(node);
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias)
+        symbol = checker.getAliasedSymbol(symbol);
+      if (!symbol) return undefined;
+
+      const hash = ws.typescript.buildStableId(symbol)?.hash;
+      const found = hash ? ws.byHash.get(hash) : undefined;
+      return found && this.toInfo(ws, found);
+    }
+    return undefined;
+  }
+
+  /**
+   * Absolute path of a project-relative file of SymbolInfo
+   */
+  absolutePath(file: string): string {
+    return path.join(this.projectPath, file);
+  }
+
+  private lookup(
+    ref: string
+  ): { ws: WorkspaceIndex; symbol: Symbol } | undefined {
+    for (const ws of this.getWorkspaces()) {
+      const symbol = ws.byHash.get(ref);
+      if (symbol) return { ws, symbol };
+    }
+
+    const [match] = this.findSymbols(ref);
+    if (!match) return undefined;
+    for (const ws of this.getWorkspaces()) {
+      const symbol = ws.byHash.get(match.hash);
+      if (symbol) return { ws, symbol };
+    }
+    return undefined;
+  }
+
+  /**
+   * Symbol doc entries of a source file by hash, cached
+   */
+  private readDocs(ws: WorkspaceIndex, file: string): Map<string, any> {
+    const docsFile = path.join(ws.docsPath, file + ".json");
+    let docs = this.docsCache.get(docsFile);
+    if (!docs) {
+      docs = new Map();
+      for (const entry of readDocEntries(docsFile)) {
+        if (isSymbolEntry(entry) && entry.id?.hash)
+          docs.set(entry.id.hash, entry);
+      }
+      this.docsCache.set(docsFile, docs);
+    }
+    return docs;
+  }
+
+  private toInfo(ws: WorkspaceIndex, symbol: Symbol): SymbolInfo {
+    let root = symbol;
+    while (root.parent) root = root.parent;
+    return {
+      hash: symbol.id.hash,
+      name: symbol.id.name,
+      qualifiedName: qualifiedName(symbol),
+      kind: symbol.id.kind,
+      workspace: ws.relative,
+      file:
+        ws.relative === "."
+          ? symbol.id.file
+          : path.posix.join(ws.relative, symbol.id.file),
+      start: symbol.start,
+      end: symbol.end,
+      exported: root.isExported || !!root.id.exportHints?.length,
+    };
+  }
+
+  private relativePath(absPath: string): string {
+    return path.relative(this.projectPath, absPath).split(path.sep).join("/");
+  }
+}
+
+/**
+ * Find the identifier containing the position, or ending right at it
+ */
+function findIdentifierAt(
+  sf: ts.SourceFile,
+  pos: number
+): ts.Identifier | undefined {
+  const visit = (node: ts.Node): ts.Identifier | undefined => {
+    if (pos < node.getStart(sf) || pos > node.getEnd()) return undefined;
+    if (ts.isIdentifier(node)) return node;
+    return ts.forEachChild(node, visit);
+  };
+  return visit(sf);
+}
+
+function qualifiedName(symbol: Symbol): string {
+  return [...symbol.id.containerChain.map((c) => c.name), symbol.id.name].join(
+    "."
+  );
+}
+
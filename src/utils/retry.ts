@@ -0,0 +1,97 @@
+import { debugError } from "./debug.js";
+
+/** Node network error codes worth retrying */
+const TRANSIENT_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+/** Messages of relay, payment and LLM errors worth retrying */
+const TRANSIENT_MESSAGE =
+  /timeout|timed out|socket hang up|fetch failed|network|relay|connection|rate limit|too many requests|overloaded|temporarily|unavailable|payment failed|failed to pay|no route|try again/i;
+
+/**
+ * Check if an error is likely to go away if the request is repeated:
+ * network failures, relay and payment hiccups, HTTP 408/409/429/5xx.
+ *
+ * @param error - Error to check
+ * @returns true if the error is transient
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const e = error as {
+    status?: unknown;
+    code?: unknown;
+    message?: unknown;
+    cause?: unknown;
+  };
+
+  if (typeof e.status === "number") {
+    return [408, 409, 429].includes(e.status) || e.status >= 500;
+  }
+  if (typeof e.code === "string" && TRANSIENT_CODES.includes(e.code))
+    return true;
+  if (typeof e.message === "string" && TRANSIENT_MESSAGE.test(e.message))
+    return true;
+
+  // fetch wraps the network error
+  return e.cause !== undefined && e.cause !== error && isTransientError(e.cause);
+}
+
+export type RetryOptions = {
+  /** Number of retries after the first attempt (default: 3) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each next one (default: 1000) */
+  baseDelayMs?: number;
+  /** Max delay between attempts (default: 30000) */
+  maxDelayMs?: number;
+  /** Decide if an error is worth retrying (default: isTransientError) */
+  isTransient?: (error: unknown) => boolean;
+  /** Label for logs */
+  label?: string;
+};
+
+/**
+ * Call fn, retrying with exponential backoff and jitter on transient errors
+ *
+ * @param fn - Function to call
+ * @param options - Retry options
+ * @returns The result of fn
+ * @throws The last error if it's not transient or retries are exhausted
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const retries = options.retries ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+  const isTransient = options.isTransient || isTransientError;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isTransient(error)) throw error;
+
+      const delay = Math.min(
+        maxDelayMs,
+        baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2)
+      );
+      debugError(
+        `${options.label || "Request"} failed (attempt ${attempt + 1}/${
+          retries + 1
+        }): ${(error as Error).message}, retrying in ${Math.round(delay)}ms`
+      );
+      await new Promise((ok) => setTimeout(ok, delay));
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Doc } from "askexperts/docstore";
+
+/** Default path of the search index, relative to the current dir */
+export const DEFAULT_SEARCH_INDEX = "askexperts-search.json";
+
+const SEARCH_INDEX_VERSION = 1;
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Metadata fields that are searchable along with the doc data
+const SEARCHABLE_METADATA = ["file", "path", "heading"];
+
+/**
+ * Doc stored in the search index
+ */
+type IndexedDoc = {
+  id: string;
+  type: string;
+  /** Parsed "key: value" lines of the doc metadata */
+  metadata: Record<string, string>;
+  data: string;
+  /** Number of tokens */
+  length: number;
+};
+
+/**
+ * Search index file format
+ */
+type SearchIndexFile = {
+  version: number;
+  docs: IndexedDoc[];
+  /** Postings per term, flat [docIndex, termFrequency, docIndex, ...] */
+  terms: Record<string, number[]>;
+};
+
+export type SearchResult = {
+  id: string;
+  type: string;
+  score: number;
+  metadata: Record<string, string>;
+  /** Lines of the doc data with the most query term matches */
+  snippet: string;
+};
+
+export type SearchOptions = {
+  /** Max number of results */
+  limit?: number;
+  /** Only return docs of this type */
+  type?: string;
+};
+
+/**
+ * Split an identifier into lowercase words:
+ * "parseHTTPResponse" -> ["parse", "http", "response"], "max_tokens" -> ["max", "tokens"]
+ *
+ * @param word - Identifier or plain word
+ * @returns The words, a single one for plain words
+ */
+export function splitIdentifier(word: string): string[] {
+  return word
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .split(/[\s_$]+/)
+    .map((w) => w.toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Tokenize text for the index: every identifier gives its lowercase full form
+ * and, if it's compound, its camelCase/snake_case parts, so "createFileTree"
+ * matches both "createFileTree" and "file tree" queries.
+ *
+ * @param text - Text to tokenize
+ * @returns Tokens in text order, single chars are dropped
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [word] of text.matchAll(/[\p{L}\p{N}_$]+/gu)) {
+    const full = word.replace(/^[_$]+|[_$]+$/g, "").toLowerCase();
+    if (full.length > 1) tokens.push(full);
+    const parts = splitIdentifier(word);
+    if (parts.length > 1)
+      for (const part of parts) if (part.length > 1) tokens.push(part);
+  }
+  return tokens;
+}
+
+/**
+ * Parse "key: value" lines of doc metadata
+ */
+function parseMetadata(metadata: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const line of metadata.split("\n")) {
+    const match = /^([\w-]+):\s?(.*)$/.exec(line);
+    if (match && !(match[1] in result)) result[match[1]] = match[2];
+  }
+  return result;
+}
+
+/**
+ * Text of a doc that gets tokenized into the index
+ */
+function searchableText(metadata: Record<string, string>, data: string) {
+  return [...SEARCHABLE_METADATA.map((key) => metadata[key] || ""), data].join(
+    "\n"
+  );
+}
+
+/**
+ * Offline BM25 index over prepared docs, to check what retrieval
+ * will return without a docstore. Docs are added during `prepare`,
+ * the index is saved as a single JSON file and loaded by `search`.
+ */
+export class SearchIndex {
+  private docs: IndexedDoc[] = [];
+  private byId = new Map<string, number>();
+  // term -> doc index -> term frequency
+  private terms = new Map<string, Map<number, number>>();
+  private totalLength = 0;
+
+  /**
+   * Number of indexed docs
+   */
+  get size(): number {
+    return this.byId.size;
+  }
+
+  /**
+   * Add a doc, replacing a previously added doc with the same id
+   *
+   * @param doc - Prepared doc
+   */
+  add(doc: Doc) {
+    const metadata = parseMetadata(doc.metadata || "");
+    const tokens = tokenize(searchableText(metadata, doc.data));
+
+    const previous = this.byId.get(doc.id);
+    if (previous !== undefined) this.remove(previous);
+
+    const index = this.docs.length;
+    this.docs.push({
+      id: doc.id,
+      type: doc.type,
+      metadata,
+      data: doc.data,
+      length: tokens.length,
+    });
+    this.byId.set(doc.id, index);
+    this.totalLength += tokens.length;
+    this.addPostings(index, tokens);
+  }
+
+  /**
+   * Find docs matching the query, best first
+   *
+   * @param query - Free text query, identifiers are split like in the docs
+   * @param options - Result limit and type filter
+   * @returns Results with scores and snippets
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const count = this.size;
+    if (!queryTerms.length || !count) return [];
+
+    const avgLength = this.totalLength / count;
+    const scores = new Map<number, number>();
+    for (const term of queryTerms) {
+      const postings = this.terms.get(term);
+      if (!postings) continue;
+      const idf = Math.log(
+        1 + (count - postings.size + 0.5) / (postings.size + 0.5)
+      );
+      for (const [index, tf] of postings) {
+        const doc = this.docs[index];
+        if (options.type && doc.type !== options.type) continue;
+        const norm = K1 * (1 - B + (B * doc.length) / avgLength);
+        const score = (idf * tf * (K1 + 1)) / (tf + norm);
+        scores.set(index, (scores.get(index) || 0) + score);
+      }
+    }
+
+    return [...scores.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .slice(0, options.limit ?? 10)
+      .map(([index, score]) => {
+        const doc = this.docs[index];
+        return {
+          id: doc.id,
+          type: doc.type,
+          score,
+          metadata: doc.metadata,
+          snippet: makeSnippet(doc.data, new Set(queryTerms)),
+        };
+      });
+  }
+
+  /**
+   * Write the index to a JSON file
+   *
+   * @param filePath - Path of the index file
+   */
+  save(filePath: string) {
+    // Drop the slots of replaced docs
+    const remap = new Map<number, number>();
+    const docs: IndexedDoc[] = [];
+    for (const index of this.byId.values()) {
+      remap.set(index, docs.length);
+      docs.push(this.docs[index]);
+    }
+
+    const terms: Record<string, number[]> = {};
+    for (const [term, postings] of this.terms) {
+      const flat: number[] = [];
+      for (const [index, tf] of postings) {
+        const mapped = remap.get(index);
+        if (mapped !== undefined) flat.push(mapped, tf);
+      }
+      if (flat.length) terms[term] = flat;
+    }
+
+    const file: SearchIndexFile = {
+      version: SEARCH_INDEX_VERSION,
+      docs,
+      terms,
+    };
+    fs.writeFileSync(filePath, JSON.stringify(file));
+  }
+
+  /**
+   * Load an index written by save()
+   *
+   * @param filePath - Path of the index file
+   * @returns The index
+   * @throws Error if the file isn't a search index of a supported version
+   */
+  static load(filePath: string): SearchIndex {
+    const file = JSON.parse(
+      fs.readFileSync(filePath, "utf8")
+    ) as SearchIndexFile;
+    if (file.version !== SEARCH_INDEX_VERSION || !Array.isArray(file.docs))
+      throw new Error(
+        `Unsupported search index ${filePath}, rebuild it with 'prepare --index'`
+      );
+
+    const index = new SearchIndex();
+    index.docs = file.docs;
+    file.docs.forEach((doc, i) => {
+      index.byId.set(doc.id, i);
+      index.totalLength += doc.length;
+    });
+    for (const [term, flat] of Object.entries(file.terms)) {
+      const postings = new Map<number, number>();
+      for (let i = 0; i < flat.length; i += 2) postings.set(flat[i], flat[i + 1]);
+      index.terms.set(term, postings);
+    }
+    return index;
+  }
+
+  /**
+   * Build an index of the docs written by 'prepare --dir'
+   *
+   * @param dirPath - Directory with .aedoc files
+   * @returns The index
+   */
+  static fromDocsDir(dirPath: string): SearchIndex {
+    const index = new SearchIndex();
+    for (const file of fs.readdirSync(dirPath).sort()) {
+      if (!file.endsWith(".aedoc")) continue;
+      index.add(
+        JSON.parse(fs.readFileSync(path.join(dirPath, file), "utf8")) as Doc
+      );
+    }
+    return index;
+  }
+
+  private addPostings(index: number, tokens: string[]) {
+    for (const token of tokens) {
+      let postings = this.terms.get(token);
+      if (!postings) {
+        postings = new Map();
+        this.terms.set(token, postings);
+      }
+      postings.set(index, (postings.get(index) || 0) + 1);
+    }
+  }
+
+  private remove(index: number) {
+    const doc = this.docs[index];
+    const tokens = tokenize(searchableText(doc.metadata, doc.data));
+    for (const token of new Set(tokens)) this.terms.get(token)?.delete(index);
+    this.totalLength -= doc.length;
+    this.byId.delete(doc.id);
+  }
+}
+
+/**
+ * Pick up to 3 consecutive lines of the data with the most query terms
+ */
+function makeSnippet(data: string, queryTerms: Set<string>): string {
+  const lines = data.split("\n");
+  const hits = lines.map(
+    (line) => tokenize(line).filter((t) => queryTerms.has(t)).length
+  );
+
+  let best = 0;
+  let bestHits = -1;
+  for (let i = 0; i < lines.length; i++) {
+    const windowHits = hits[i] + (hits[i + 1] || 0) + (hits[i + 2] || 0);
+    if (windowHits > bestHits && lines[i].trim()) {
+      best = i;
+      bestHits = windowHits;
+    }
+  }
+
+  const snippet = lines
+    .slice(best, best + 3)
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .join(" ");
+  return snippet.length > 240 ? snippet.slice(0, 237) + "..." : snippet;
+}
@@ -0,0 +1,567 @@
+import ts from "typescript";
+import { Symbol, TypeScript } from "../indexer/typescript/TypeScript.js";
+import { flattenSymbols } from "./docStatus.js";
+import { getPublicEntrypoint } from "./apiReport.js";
+
+/**
+ * Heuristic semver impact of the changes of a package's public symbols.
+ *
+ * Symbols of two versions are matched by StableSymbolId.hash (same header),
+ * then by kind, container, name and normalized header text, as the hash
+ * of an overload changes with its index when another overload changes,
+ * then by overload index, or the only declaration of the name left,
+ * for symbols whose header changed.
+ * Matched symbols with changed headers are compared by their signatures
+ * as printed by each version's type checker, so the rules are textual:
+ * - major: removed public symbols, new required parameters, removed or
+ *   narrowed parameters, widened return types, changed property types,
+ *   new required interface members
+ * - minor: new public symbols, new optional parameters, widened parameters,
+ *   narrowed return types
+ * - patch: changed bodies or formatting of public symbols
+ */
+
+export type SemverLevel = "none" | "patch" | "minor" | "major";
+
+export const SEMVER_LEVELS: SemverLevel[] = ["none", "patch", "minor", "major"];
+
+export interface SemverChange {
+  level: Exclude<SemverLevel, "none">;
+  /** Name with containers, e.g. "Client.connect" */
+  symbol: string;
+  kind: string;
+  /** Project-relative file in the newer version, or the older if removed */
+  file: string;
+  reason: string;
+}
+
+/** Public symbol of one version with its analyzer */
+interface PublicSymbol {
+  symbol: Symbol;
+  project: TypeScript;
+}
+
+/** Type printed as a whole and as union members */
+interface TypeText {
+  text: string;
+  members: string[];
+}
+
+interface ParamShape {
+  name: string;
+  type: TypeText;
+  optional: boolean;
+  rest: boolean;
+}
+
+interface SignatureShape {
+  params: ParamShape[];
+  returnType: TypeText;
+}
+
+/**
+ * Max level of a list of changes
+ */
+export function maxLevel(changes: { level: SemverLevel }[]): SemverLevel {
+  let level: SemverLevel = "none";
+  for (const c of changes)
+    if (SEMVER_LEVELS.indexOf(c.level) > SEMVER_LEVELS.indexOf(level))
+      level = c.level;
+  return level;
+}
+
+/**
+ * Apply a bump to a version, breaking changes of 0.x versions bump the minor
+ *
+ * @param version - Current version like "1.2.3"
+ * @param level - Bump level
+ * @returns Next version, or undefined if version isn't x.y.z
+ */
+export function bumpVersion(
+  version: string | undefined,
+  level: SemverLevel
+): string | undefined {
+  const m = version?.match(/^(\d+)\.(\d+)\.(\d+)/);
+  if (!m) return undefined;
+  let [major, minor, patch] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  if (level === "major" && major === 0) level = "minor";
+  else if (level === "minor" && major === 0) level = "patch";
+
+  switch (level) {
+    case "major":
+      return `${major + 1}.0.0`;
+    case "minor":
+      return `${major}.${minor + 1}.0`;
+    case "patch":
+      return `${major}.${minor}.${patch + 1}`;
+    default:
+      return `${major}.${minor}.${patch}`;
+  }
+}
+
+/**
+ * Bump level between two versions
+ *
+ * @returns The level, or undefined if versions aren't x.y.z
+ */
+export function versionBump(
+  from: string | undefined,
+  to: string | undefined
+): SemverLevel | undefined {
+  for (const level of ["none", "patch", "minor", "major"] as SemverLevel[]) {
+    const next = bumpVersion(from, level);
+    if (next === undefined) return undefined;
+    if (next === to?.replace(/[-+].*$/, "")) return level;
+  }
+  return undefined;
+}
+
+/**
+ * List symbols reachable through the public entrypoints, with their members
+ *
+ * @param project - Analyzer of the package
+ * @param workspacePath - Absolute path to the package
+ */
+function listPublicSymbols(
+  project: TypeScript,
+  workspacePath: string
+): PublicSymbol[] {
+  const name = project.getPackageJson()?.name || "<package>";
+  const entrypointFiles = new Set(project.getEntrypoints());
+
+  const publicDecls = new Set<ts.Node>();
+  // Modules re-exported as namespaces, all their exports are public
+  const publicModules = new Set<string>();
+  for (const root of project.list()) {
+    if (!getPublicEntrypoint(root, name, entrypointFiles, workspacePath))
+      continue;
+    for (const decl of root.symbol.getDeclarations() || []) {
+      if (ts.isSourceFile(decl)) publicModules.add(decl.fileName);
+      else publicDecls.add(decl);
+    }
+  }
+
+  const result: PublicSymbol[] = [];
+  for (const root of project.listRootSymbols()) {
+    const resolved = project.resolveStableId(root.id);
+    if (!resolved) continue;
+    const isPublic =
+      publicDecls.has(resolved.decl) ||
+      (root.isExported &&
+        publicModules.has(resolved.decl.getSourceFile().fileName));
+    if (!isPublic) continue;
+
+    for (const symbol of flattenSymbols([root]))
+      result.push({ symbol, project });
+  }
+  return result;
+}
+
+function displayName(symbol: Symbol): string {
+  return [...symbol.id.containerChain.map((c) => c.name), symbol.id.name].join(
+    "."
+  );
+}
+
+/**
+ * Key of a symbol ignoring its header, overload index and file
+ */
+function looseKey(symbol: Symbol): string {
+  return `${symbol.id.kind}:${displayName(symbol)}`;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function typeText(checker: ts.TypeChecker, type: ts.Type, at: ts.Node): TypeText {
+  const print = (t: ts.Type) =>
+    checker.typeToString(t, at, ts.TypeFormatFlags.NoTruncation);
+  return {
+    text: print(type),
+    members: type.isUnion() ? type.types.map(print).sort() : [print(type)],
+  };
+}
+
+/**
+ * Compare two types by their printed union members
+ *
+ * @returns "same", "narrowed" (new accepts less), "widened" or "changed"
+ */
+function compareTypes(
+  oldType: TypeText,
+  newType: TypeText
+): "same" | "narrowed" | "widened" | "changed" {
+  if (oldType.text === newType.text) return "same";
+  const loose = ["any", "unknown"];
+  if (loose.includes(newType.text)) return "widened";
+  if (loose.includes(oldType.text)) return "narrowed";
+
+  const oldSet = new Set(oldType.members);
+  const newSet = new Set(newType.members);
+  if (newType.members.every((m) => oldSet.has(m))) return "narrowed";
+  if (oldType.members.every((m) => newSet.has(m))) return "widened";
+  return "changed";
+}
+
+/**
+ * Get parameters and return type of a function-like symbol,
+ * including variables and properties holding a single-signature function
+ */
+function signatureShape(
+  project: TypeScript,
+  decl: ts.Declaration
+): SignatureShape | undefined {
+  const checker = project.getProgram().getTypeChecker();
+
+  let signature: ts.Signature | undefined;
+  if (ts.isFunctionLike(decl)) {
+    signature = checker.getSignatureFromDeclaration(decl);
+  } else if (
+    ts.isVariableDeclaration(decl) ||
+    ts.isPropertyDeclaration(decl) ||
+    ts.isPropertySignature(decl) ||
+    ts.isPropertyAssignment(decl)
+  ) {
+    const signatures = checker
+      .getTypeAtLocation(decl)
+      .getCallSignatures();
+    if (signatures.length === 1) signature = signatures[0];
+  }
+  if (!signature) return undefined;
+
+  const params: ParamShape[] = signature.parameters.map((p) => {
+    const pd = p.valueDeclaration;
+    const paramDecl = pd && ts.isParameter(pd) ? pd : undefined;
+    return {
+      name: p.getName(),
+      type: typeText(
+        checker,
+        checker.getTypeOfSymbolAtLocation(p, pd || decl),
+        decl
+      ),
+      optional: !!(paramDecl?.questionToken || paramDecl?.initializer),
+      rest: !!paramDecl?.dotDotDotToken,
+    };
+  });
+
+  return {
+    params,
+    returnType: typeText(checker, checker.getReturnTypeOfSignature(signature), decl),
+  };
+}
+
+/**
+ * Classify a change of a function-like signature
+ */
+function compareSignatures(
+  oldShape: SignatureShape,
+  newShape: SignatureShape
+): { level: SemverChange["level"]; reason: string }[] {
+  const result: { level: SemverChange["level"]; reason: string }[] = [];
+  const count = Math.max(oldShape.params.length, newShape.params.length);
+  for (let i = 0; i < count; i++) {
+    const o = oldShape.params[i];
+    const n = newShape.params[i];
+    if (!n) {
+      result.push({ level: "major", reason: `parameter '${o.name}' removed` });
+      continue;
+    }
+    if (!o) {
+      if (n.optional || n.rest)
+        result.push({ level: "minor", reason: `new optional parameter '${n.name}'` });
+      else
+        result.push({ level: "major", reason: `new required parameter '${n.name}'` });
+      continue;
+    }
+
+    if (o.optional && !n.optional && !n.rest)
+      result.push({ level: "major", reason: `parameter '${n.name}' became required` });
+    else if (!o.optional && n.optional)
+      result.push({ level: "minor", reason: `parameter '${n.name}' became optional` });
+
+    switch (compareTypes(o.type, n.type)) {
+      case "narrowed":
+        result.push({
+          level: "major",
+          reason: `parameter '${n.name}' narrowed from '${o.type.text}' to '${n.type.text}'`,
+        });
+        break;
+      case "widened":
+        result.push({
+          level: "minor",
+          reason: `parameter '${n.name}' widened from '${o.type.text}' to '${n.type.text}'`,
+        });
+        break;
+      case "changed":
+        result.push({
+          level: "major",
+          reason: `parameter '${n.name}' type changed from '${o.type.text}' to '${n.type.text}'`,
+        });
+        break;
+    }
+  }
+
+  const o = oldShape.returnType;
+  const n = newShape.returnType;
+  switch (compareTypes(o, n)) {
+    case "narrowed":
+      result.push({
+        level: "minor",
+        reason: `return type narrowed from '${o.text}' to '${n.text}'`,
+      });
+      break;
+    case "widened":
+    case "changed":
+      // void results weren't usable before
+      if (o.text === "void")
+        result.push({ level: "minor", reason: `now returns '${n.text}'` });
+      else
+        result.push({
+          level: "major",
+          reason: `return type changed from '${o.text}' to '${n.text}'`,
+        });
+      break;
+  }
+
+  return result;
+}
+
+/**
+ * Print the declared type of a non-function symbol
+ */
+function valueTypeText(
+  project: TypeScript,
+  decl: ts.Declaration
+): TypeText | undefined {
+  const checker = project.getProgram().getTypeChecker();
+  if (ts.isTypeAliasDeclaration(decl))
+    return typeText(checker, checker.getTypeAtLocation(decl.name), decl);
+  if (
+    ts.isVariableDeclaration(decl) ||
+    ts.isPropertyDeclaration(decl) ||
+    ts.isPropertySignature(decl) ||
+    ts.isPropertyAssignment(decl) ||
+    ts.isEnumMember(decl)
+  )
+    return typeText(checker, checker.getTypeAtLocation(decl), decl);
+  return undefined;
+}
+
+function isOptionalMember(decl: ts.Declaration): boolean {
+  return (
+    (ts.isPropertySignature(decl) ||
+      ts.isMethodSignature(decl) ||
+      ts.isPropertyDeclaration(decl) ||
+      ts.isMethodDeclaration(decl)) &&
+    !!decl.questionToken
+  );
+}
+
+/**
+ * Classify the change of a symbol whose header changed
+ */
+function compareMatched(
+  oldItem: PublicSymbol,
+  newItem: PublicSymbol
+): { level: SemverChange["level"]; reason: string }[] {
+  const oldDecl = oldItem.project.resolveStableId(oldItem.symbol.id)?.decl;
+  const newDecl = newItem.project.resolveStableId(newItem.symbol.id)?.decl;
+  if (!oldDecl || !newDecl)
+    return [{ level: "major", reason: "declaration changed" }];
+
+  const oldShape = signatureShape(oldItem.project, oldDecl);
+  const newShape = signatureShape(newItem.project, newDecl);
+  if (oldShape && newShape) {
+    const changes = compareSignatures(oldShape, newShape);
+    return changes.length
+      ? changes
+      : [{ level: "patch", reason: "signature reformatted" }];
+  }
+
+  const result: { level: SemverChange["level"]; reason: string }[] = [];
+  if (isOptionalMember(oldDecl) !== isOptionalMember(newDecl))
+    result.push({
+      level: "major",
+      reason: isOptionalMember(newDecl) ? "became optional" : "became required",
+    });
+
+  const oldType = valueTypeText(oldItem.project, oldDecl);
+  const newType = valueTypeText(newItem.project, newDecl);
+  if (oldType && newType) {
+    const change = compareTypes(oldType, newType);
+    // Consts are only read, aliases are mostly extended with new options
+    const readOnly =
+      ts.isVariableDeclaration(newDecl) &&
+      !!(ts.getCombinedNodeFlags(newDecl) & ts.NodeFlags.Const);
+    if (change === "narrowed" && readOnly)
+      result.push({
+        level: "minor",
+        reason: `type narrowed from '${oldType.text}' to '${newType.text}'`,
+      });
+    else if (change === "widened" && ts.isTypeAliasDeclaration(newDecl))
+      result.push({
+        level: "minor",
+        reason: `type widened from '${oldType.text}' to '${newType.text}'`,
+      });
+    else if (change !== "same")
+      result.push({
+        level: "major",
+        reason: `type changed from '${oldType.text}' to '${newType.text}'`,
+      });
+    return result.length
+      ? result
+      : [{ level: "patch", reason: "declaration reformatted" }];
+  }
+
+  // Class/interface/enum headers: heritage or type parameters changed
+  const oldText = normalizeText(oldItem.symbol.declText);
+  const newText = normalizeText(newItem.symbol.declText);
+  if (oldText !== newText)
+    result.push({
+      level: "major",
+      reason: `declaration changed from '${oldText}' to '${newText}'`,
+    });
+  return result.length
+    ? result
+    : [{ level: "patch", reason: "declaration reformatted" }];
+}
+
+/**
+ * Classify the change of a symbol whose header didn't change
+ */
+function compareSameHeader(
+  oldItem: PublicSymbol,
+  newItem: PublicSymbol
+): { level: SemverChange["level"]; reason: string }[] {
+  // Changes of members are reported for the members themselves
+  if (
+    oldItem.symbol.bodyHash === newItem.symbol.bodyHash ||
+    newItem.symbol.children?.length
+  )
+    return [];
+
+  // Same header, but inferred types may have changed with the body
+  const oldDecl = oldItem.project.resolveStableId(oldItem.symbol.id)?.decl;
+  const newDecl = newItem.project.resolveStableId(newItem.symbol.id)?.decl;
+  const oldShape = oldDecl && signatureShape(oldItem.project, oldDecl);
+  const newShape = newDecl && signatureShape(newItem.project, newDecl);
+  const inferred =
+    oldShape && newShape ? compareSignatures(oldShape, newShape) : [];
+  return inferred.length
+    ? inferred
+    : [{ level: "patch", reason: "implementation changed" }];
+}
+
+/**
+ * Classify the changes of the public symbols between two versions of a package
+ *
+ * @param oldProject - Analyzer of the older version
+ * @param oldPath - Absolute path to the older version
+ * @param newProject - Analyzer of the newer version
+ * @param newPath - Absolute path to the newer version
+ * @returns Changes sorted by file and symbol
+ */
+export function classifyChanges(
+  oldProject: TypeScript,
+  oldPath: string,
+  newProject: TypeScript,
+  newPath: string
+): SemverChange[] {
+  const oldSymbols = listPublicSymbols(oldProject, oldPath);
+  const newSymbols = listPublicSymbols(newProject, newPath);
+
+  // Match by stable id first
+  const oldByHash = new Map(oldSymbols.map((s) => [s.symbol.id.hash, s]));
+  const matched = new Set<PublicSymbol>();
+  const unmatchedNew: PublicSymbol[] = [];
+  const changes: SemverChange[] = [];
+
+  const change = (
+    item: PublicSymbol,
+    level: SemverChange["level"],
+    reason: string
+  ) =>
+    changes.push({
+      level,
+      symbol: displayName(item.symbol),
+      kind: item.symbol.id.kind,
+      file: item.symbol.id.file,
+      reason,
+    });
+
+  for (const n of newSymbols) {
+    const o = oldByHash.get(n.symbol.id.hash);
+    if (!o || matched.has(o)) {
+      unmatchedNew.push(n);
+      continue;
+    }
+    matched.add(o);
+    for (const c of compareSameHeader(o, n)) change(n, c.level, c.reason);
+  }
+
+  // Then by kind, container and name: the same header text first, then
+  // the same overload index or the only one left, preferring the same file
+  const oldByKey = new Map<string, PublicSymbol[]>();
+  for (const o of oldSymbols) {
+    if (matched.has(o)) continue;
+    const key = looseKey(o.symbol);
+    oldByKey.set(key, [...(oldByKey.get(key) || []), o]);
+  }
+
+  for (const n of unmatchedNew) {
+    const candidates = (oldByKey.get(looseKey(n.symbol)) || []).filter(
+      (o) => !matched.has(o)
+    );
+    const header = normalizeText(n.symbol.declText);
+    const sameHeader = candidates.filter(
+      (c) => normalizeText(c.symbol.declText) === header
+    );
+    const sameIndex = candidates.filter(
+      (c) =>
+        (c.symbol.id.overloadIndex || 0) === (n.symbol.id.overloadIndex || 0)
+    );
+    const pick = (list: PublicSymbol[]) =>
+      list.find((c) => c.symbol.id.file === n.symbol.id.file) || list[0];
+    const o =
+      pick(sameHeader) ||
+      pick(sameIndex) ||
+      (candidates.length === 1 ? candidates[0] : undefined);
+
+    if (!o) {
+      // Implementers of interfaces must add required members
+      const newDecl = n.project.resolveStableId(n.symbol.id)?.decl;
+      const chain = n.symbol.id.containerChain;
+      const parentKind = chain[chain.length - 1]?.kind;
+      if (
+        newDecl &&
+        parentKind === ts.SyntaxKind.InterfaceDeclaration &&
+        !isOptionalMember(newDecl)
+      )
+        change(n, "major", "new required interface member");
+      else change(n, "minor", "added");
+      continue;
+    }
+
+    matched.add(o);
+    const changes = sameHeader.includes(o)
+      ? compareSameHeader(o, n)
+      : compareMatched(o, n);
+    for (const c of changes) change(n, c.level, c.reason);
+  }
+
+  for (const o of oldSymbols) {
+    if (matched.has(o)) continue;
+    // Members of removed symbols are covered by their parent
+    if (o.symbol.parent && !matched.has(oldByHash.get(o.symbol.parent.id.hash)!))
+      continue;
+    change(o, "major", "removed");
+  }
+
+  return changes.sort(
+    (a, b) =>
+      SEMVER_LEVELS.indexOf(b.level) - SEMVER_LEVELS.indexOf(a.level) ||
+      (a.file < b.file ? -1 : a.file > b.file ? 1 : 0) ||
+      (a.symbol < b.symbol ? -1 : a.symbol > b.symbol ? 1 : 0)
+  );
+}
@@ -0,0 +1,176 @@
+import { Command } from "commander";
+import ts from "typescript";
+import { Symbol } from "../indexer/typescript/TypeScript.js";
+import { createGlobMatcher } from "./glob.js";
+
+/**
+ * Symbol filter options shared by generate, prepare and symbols commands
+ */
+export type SymbolFilterOptions = {
+  /** Globs of workspace-relative files to take symbols from */
+  includeFiles?: string[];
+  /** Globs of workspace-relative files to skip */
+  excludeFiles?: string[];
+  /** Comma-separated declaration kinds, e.g. "FunctionDeclaration,ClassDeclaration" */
+  kinds?: string;
+  /** Only symbols exported from their module, and members of those */
+  exportedOnly?: boolean;
+  /** Regexp tested against the name and the qualified name (Class.method) */
+  name?: string;
+  /** Min number of lines of the declaration */
+  minLines?: number;
+};
+
+/**
+ * Selects symbols by file globs, kind, export status, name and size.
+ * Every symbol is checked on its own, i.e. --kinds ClassDeclaration
+ * doesn't select class members.
+ */
+export class SymbolFilter {
+  private includeFile?: (file: string) => boolean;
+  private excludeFile?: (file: string) => boolean;
+  private kinds?: Set<string>;
+  private exportedOnly: boolean;
+  private name?: RegExp;
+  private minLines: number;
+
+  /**
+   * @param options - Filter options
+   * @throws Error on unknown kinds or invalid name regexp
+   */
+  constructor(options: SymbolFilterOptions) {
+    if (options.includeFiles?.length)
+      this.includeFile = createGlobMatcher(options.includeFiles);
+    if (options.excludeFiles?.length)
+      this.excludeFile = createGlobMatcher(options.excludeFiles);
+
+    if (options.kinds) {
+      const kinds = options.kinds
+        .split(",")
+        .map((k) => k.trim())
+        .filter(Boolean);
+      const unknown = kinds.filter(
+        (k) => typeof (ts.SyntaxKind as any)[k] !== "number"
+      );
+      if (unknown.length)
+        throw new Error(
+          `Unknown symbol kinds: ${unknown.join(", ")}, expected TypeScript SyntaxKind names like FunctionDeclaration`
+        );
+      this.kinds = new Set(kinds);
+    }
+
+    this.exportedOnly = !!options.exportedOnly;
+
+    if (options.name) {
+      try {
+        this.name = new RegExp(options.name);
+      } catch (error) {
+        throw new Error(
+          `Invalid --name regexp: ${(error as Error).message}`
+        );
+      }
+    }
+
+    this.minLines = options.minLines || 0;
+  }
+
+  /**
+   * Check if any filtering is configured
+   */
+  isEmpty(): boolean {
+    return (
+      !this.includeFile &&
+      !this.excludeFile &&
+      !this.kinds &&
+      !this.exportedOnly &&
+      !this.name &&
+      !this.minLines
+    );
+  }
+
+  /**
+   * Check if symbols of a workspace-relative file are selected
+   *
+   * @param file - Workspace-relative posix path
+   */
+  matchesFile(file: string): boolean {
+    if (this.includeFile && !this.includeFile(file)) return false;
+    if (this.excludeFile && this.excludeFile(file)) return false;
+    return true;
+  }
+
+  /**
+   * Check if a symbol is selected, symbol.parent must be set for
+   * --exported-only to work on members
+   *
+   * @param symbol - Symbol from listRootSymbols
+   */
+  matches(symbol: Symbol): boolean {
+    if (!this.matchesFile(symbol.id.file)) return false;
+    if (this.kinds && !this.kinds.has(symbol.id.kind)) return false;
+
+    if (this.exportedOnly) {
+      let root = symbol;
+      while (root.parent) root = root.parent;
+      if (!root.isExported && !root.id.exportHints?.length) return false;
+    }
+
+    if (this.name) {
+      const qualified = [
+        ...symbol.id.containerChain.map((c) => c.name),
+        symbol.id.name,
+      ].join(".");
+      if (!this.name.test(symbol.id.name) && !this.name.test(qualified))
+        return false;
+    }
+
+    if (this.minLines) {
+      const lines =
+        parseInt(symbol.end, 10) - parseInt(symbol.start, 10) + 1;
+      if (lines < this.minLines) return false;
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Add the symbol filter options to a command
+ *
+ * @param command - Command to add the options to
+ * @returns The command
+ */
+export function addSymbolFilterOptions(command: Command): Command {
+  const collect = (value: string, previous: string[] = []) => [
+    ...previous,
+    value,
+  ];
+  return command
+    .option(
+      "--include-files <glob>",
+      "Only take symbols from files matching the glob (can be specified multiple times)",
+      collect
+    )
+    .option(
+      "--exclude-files <glob>",
+      "Skip symbols of files matching the glob (can be specified multiple times)",
+      collect
+    )
+    .option(
+      "--kinds <kinds>",
+      "Comma-separated declaration kinds to keep, e.g. FunctionDeclaration,ClassDeclaration"
+    )
+    .option(
+      "--exported-only",
+      "Only keep exported symbols and their members"
+    )
+    .option(
+      "-n, --name <regex>",
+      "Only keep symbols with names (or Class.member names) matching the regexp"
+    )
+    .option(
+      "--min-lines <number>",
+      "Only keep symbols with declarations of at least this many lines",
+      (value) => parseInt(value, 10)
+    );
+}